@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { Particle } from './types';
+import { getPhotoCanvas, exportPhotoPng, exportGalleryZip } from './photoExport';
+
+interface GalleryPanelProps {
+  photos: Particle[];
+  onClose: () => void;
+  onError: (msg: string) => void;
+}
+
+const formatDate = (ms?: number) => {
+  const d = new Date(ms || Date.now());
+  return `${d.toLocaleDateString()} • ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const GalleryPanel: React.FC<GalleryPanelProps> = ({ photos, onClose, onError }) => {
+  const [busy, setBusy] = useState(false);
+
+  // Thumbnails are rendered once per open, straight from the polaroid textures
+  const thumbs = useMemo(() => photos.map(p => getPhotoCanvas(p)?.toDataURL('image/jpeg', 0.6) || ''), [photos]);
+
+  const run = async (job: () => Promise<void>) => {
+    setBusy(true);
+    try { await job(); }
+    catch (e) { onError(`Export failed: ${e instanceof Error ? e.message : String(e)}`); }
+    finally { setBusy(false); }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[2000] bg-black/80 backdrop-blur-sm flex flex-col items-center p-6 md:p-12" style={{ pointerEvents: 'auto' }}>
+      <div className="w-full max-w-5xl flex items-center justify-between border-b border-accent-500/40 pb-3 mb-6">
+        <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase">
+          Gallery ({photos.length})
+        </span>
+        <div className="flex gap-3">
+          <button
+            disabled={busy || photos.length === 0}
+            onClick={() => run(() => exportGalleryZip(photos))}
+            className="px-4 py-2 text-xs font-bold tracking-widest uppercase border border-accent-500/80 text-accent-400 rounded hover:bg-accent-500/10 disabled:opacity-30"
+          >
+            {busy ? 'Exporting...' : 'Download All (ZIP)'}
+          </button>
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border border-white/40 text-white/80 rounded hover:bg-white/10">
+            Close
+          </button>
+        </div>
+      </div>
+
+      {photos.length === 0 ? (
+        <div className="text-accent-500/60 font-mono text-sm tracking-widest mt-12">NO PHOTOS YET — MAKE AN L WITH YOUR HAND TO SNAP ONE</div>
+      ) : (
+        <div className="w-full max-w-5xl overflow-y-auto grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-6 pb-12">
+          {photos.map((p, i) => (
+            <div key={p.id || i} className="flex flex-col items-center gap-2">
+              {thumbs[i] && <img src={thumbs[i]} alt={p.caption || 'Polaroid'} className="w-full shadow-[0_10px_30px_rgba(0,0,0,0.8)]" />}
+              <span className="text-[10px] text-accent-500/80 font-mono tracking-widest">{formatDate(p.createdAt)}</span>
+              <button
+                disabled={busy}
+                onClick={() => run(() => exportPhotoPng(p, i))}
+                className="px-3 py-1 text-[10px] font-bold tracking-widest uppercase border border-accent-500/60 text-accent-400 rounded hover:bg-accent-500/10 disabled:opacity-30"
+              >
+                PNG
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryPanel;
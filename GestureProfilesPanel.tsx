@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { extractHandFeatures, HandFeatures } from './gestureClassifier';
+import { GestureProfile, CalibrationSamples, CALIBRATION_STEPS, DEFAULT_PROFILE_NAME, deriveGestureConfig } from './calibration';
+
+type LandmarkSink = (landmarks: NormalizedLandmark[]) => void;
+
+interface GestureProfilesPanelProps {
+  profiles: GestureProfile[];
+  activeName: string;
+  trackingReady: boolean;
+  onSelect: (name: string) => void;
+  onDelete: (name: string) => void;
+  onSave: (profile: GestureProfile) => void;
+  // Routes raw landmarks from the prediction loop to the wizard (and away from gestures) while it runs
+  onCalibrating: (sink: LandmarkSink | null) => void;
+  onClose: () => void;
+}
+
+const READY_MS = 2500;
+const RECORD_MS = 2000;
+const MIN_SAMPLES = 10;
+
+type Phase = 'LIST' | 'READY' | 'RECORDING' | 'NAME';
+
+const buttonClass = "px-4 py-2 text-xs font-bold tracking-widest uppercase border rounded disabled:opacity-30";
+
+const GestureProfilesPanel: React.FC<GestureProfilesPanelProps> = ({ profiles, activeName, trackingReady, onSelect, onDelete, onSave, onCalibrating, onClose }) => {
+  const [phase, setPhase] = useState<Phase>('LIST');
+  const [step, setStep] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [notice, setNotice] = useState('');
+  const [name, setName] = useState('');
+  const samplesRef = useRef<CalibrationSamples>({});
+  const bufferRef = useRef<HandFeatures[]>([]);
+  const recordingRef = useRef(false);
+
+  // Never leave the prediction loop routed to an unmounted wizard
+  useEffect(() => () => onCalibrating(null), []);
+
+  useEffect(() => {
+    if (phase !== 'READY' && phase !== 'RECORDING') return;
+    const duration = phase === 'READY' ? READY_MS : RECORD_MS;
+    const start = performance.now();
+    if (phase === 'RECORDING') { bufferRef.current = []; recordingRef.current = true; }
+    const tick = setInterval(() => setProgress(Math.min((performance.now() - start) / duration, 1)), 50);
+    const done = setTimeout(() => {
+      if (phase === 'READY') { setPhase('RECORDING'); return; }
+      recordingRef.current = false;
+      if (bufferRef.current.length < MIN_SAMPLES) {
+        setNotice('No hand detected, try again');
+        setPhase('READY');
+        return;
+      }
+      samplesRef.current[CALIBRATION_STEPS[step].gesture] = bufferRef.current;
+      setNotice('');
+      if (step + 1 < CALIBRATION_STEPS.length) { setStep(step + 1); setPhase('READY'); }
+      else { onCalibrating(null); setPhase('NAME'); }
+    }, duration);
+    return () => { clearInterval(tick); clearTimeout(done); };
+  }, [phase, step]);
+
+  const start = () => {
+    samplesRef.current = {};
+    // Hold the prediction loop for the whole flow so posing does not also switch modes
+    onCalibrating(l => { if (recordingRef.current) bufferRef.current.push(extractHandFeatures(l)); });
+    setStep(0); setNotice(''); setName(''); setPhase('READY');
+  };
+
+  const cancel = () => { recordingRef.current = false; onCalibrating(null); setPhase('LIST'); };
+
+  const save = () => {
+    const profileName = name.trim();
+    onSave({ name: profileName, config: deriveGestureConfig(samplesRef.current), createdAt: Date.now() });
+    setPhase('LIST');
+  };
+
+  const current = CALIBRATION_STEPS[step];
+
+  return (
+    <div className={`absolute inset-0 z-[2000] flex p-6 ${phase === 'LIST' || phase === 'NAME' ? 'items-center justify-center bg-black/70 backdrop-blur-sm' : 'items-start justify-center pt-24'}`} style={{ pointerEvents: 'auto' }}>
+      <div className="w-full max-w-md flex flex-col gap-4 p-6 rounded bg-black/80 border border-accent-500/40 shadow-[0_0_30px_rgb(var(--accent-glow)/0.15)]">
+        <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase border-b border-accent-500/40 pb-2">
+          Gesture Profiles
+        </span>
+
+        {phase === 'LIST' && (
+          <>
+            <div className="flex flex-col gap-2">
+              {[DEFAULT_PROFILE_NAME, ...profiles.map(p => p.name)].map(n => (
+                <div key={n} className={`flex items-center justify-between px-3 py-2 rounded border ${n === activeName ? 'border-accent-400 bg-accent-500/10' : 'border-white/20'}`}>
+                  <button onClick={() => onSelect(n)} className="flex-1 text-left text-sm text-white tracking-widest">
+                    {n === activeName ? '● ' : '○ '}{n}
+                  </button>
+                  {n !== DEFAULT_PROFILE_NAME && (
+                    <button onClick={() => onDelete(n)} className="text-[10px] text-red-400/80 font-bold tracking-widest uppercase hover:text-red-300">Delete</button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {!trackingReady && <span className="text-[10px] text-red-400/80 font-mono tracking-widest">HAND TRACKING IS NOT RUNNING, CALIBRATION NEEDS THE CAMERA</span>}
+            <div className="flex justify-end gap-3 mt-2">
+              <button onClick={onClose} className={`${buttonClass} border-white/40 text-white/80 hover:bg-white/10`}>Close</button>
+              <button disabled={!trackingReady} onClick={start} className={`${buttonClass} border-accent-500/80 text-accent-400 hover:bg-accent-500/10`}>New Calibration</button>
+            </div>
+          </>
+        )}
+
+        {(phase === 'READY' || phase === 'RECORDING') && (
+          <>
+            <span className="text-[10px] text-accent-500/80 font-bold tracking-widest uppercase">Step {step + 1} / {CALIBRATION_STEPS.length}</span>
+            <div className="flex items-center gap-4">
+              <span className="text-5xl">{current.icon}</span>
+              <div className="flex flex-col">
+                <span className="text-white text-sm tracking-wide">{current.prompt}</span>
+                <span className="text-accent-400 text-xs font-bold tracking-widest uppercase mt-1">{phase === 'READY' ? 'Get ready...' : 'Hold it...'}</span>
+              </div>
+            </div>
+            <div className="h-1 bg-gray-800/50 rounded overflow-hidden">
+              <div className={`h-full ${phase === 'RECORDING' ? 'bg-red-500' : 'bg-accent-400'}`} style={{ width: `${progress * 100}%` }} />
+            </div>
+            {notice && <span className="text-[10px] text-red-400/80 font-mono tracking-widest uppercase">{notice}</span>}
+            <div className="flex justify-end">
+              <button onClick={cancel} className={`${buttonClass} border-white/40 text-white/80 hover:bg-white/10`}>Cancel</button>
+            </div>
+          </>
+        )}
+
+        {phase === 'NAME' && (
+          <>
+            <span className="text-white text-sm tracking-wide">Calibration complete. Name this profile:</span>
+            <input autoFocus value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Kids, Gloves"
+              className="w-full bg-black/60 border border-accent-500/40 rounded px-3 py-2 text-white text-sm focus:outline-none focus:border-accent-400" />
+            {name.trim() === DEFAULT_PROFILE_NAME && <span className="text-[10px] text-red-400/80 font-mono tracking-widest">THIS NAME IS RESERVED</span>}
+            <div className="flex justify-end gap-3">
+              <button onClick={cancel} className={`${buttonClass} border-white/40 text-white/80 hover:bg-white/10`}>Discard</button>
+              <button disabled={!name.trim() || name.trim() === DEFAULT_PROFILE_NAME} onClick={save} className={`${buttonClass} border-accent-500/80 text-accent-400 hover:bg-accent-500/10`}>Save & Use</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GestureProfilesPanel;
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { GuestUpload } from './guestUploads';
+import { encodeQr, qrPath } from './qrCode';
+
+interface GuestPanelProps {
+  uploadPageUrl: string;
+  queue: GuestUpload[];     // Waiting for approval, oldest first
+  online: boolean;          // Last poll of the inbox succeeded
+  onModerate: (upload: GuestUpload, approve: boolean) => void;
+  onClose: () => void;
+}
+
+const QR_QUIET = 4;
+
+const GuestPanel: React.FC<GuestPanelProps> = ({ uploadPageUrl, queue, online, onModerate, onClose }) => {
+  const qr = useMemo(() => {
+    try {
+      const modules = encodeQr(uploadPageUrl);
+      return { path: qrPath(modules, QR_QUIET), size: modules.length + QR_QUIET * 2 };
+    } catch (e) {
+      console.warn("Guest QR code not drawn:", e);
+      return null;
+    }
+  }, [uploadPageUrl]);
+
+  return (
+    <div className="absolute inset-0 z-[2000] flex items-center justify-center p-6" style={{ pointerEvents: 'auto' }} onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-full flex flex-col gap-4 p-6 rounded bg-black/80 border border-accent-500/40 shadow-[0_0_30px_rgb(var(--accent-glow)/0.15)] backdrop-blur-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-accent-500/40 pb-2">
+          <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase">Guest Photos</span>
+          <span className="flex items-center gap-2 text-[10px] font-mono tracking-widest text-white/60">
+            <span className={`w-2 h-2 rounded-full ${online ? 'bg-green-400' : 'bg-red-500'}`} />
+            {online ? 'INBOX ONLINE' : 'INBOX OFFLINE'}
+          </span>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6 min-h-0">
+          <div className="flex flex-col items-center gap-2 shrink-0">
+            {qr ? (
+              <svg viewBox={`0 0 ${qr.size} ${qr.size}`} className="w-56 h-56 rounded bg-white" shapeRendering="crispEdges">
+                <path d={qr.path} fill="#000" />
+              </svg>
+            ) : (
+              <div className="w-56 h-56 flex items-center justify-center rounded border border-white/20 text-xs text-white/60 text-center p-4">Address too long for a QR code</div>
+            )}
+            <span className="text-[10px] text-accent-500/80 font-bold tracking-widest uppercase">Scan to add your photo</span>
+            <span className="max-w-56 text-[10px] text-white/50 font-mono break-all text-center">{uploadPageUrl}</span>
+          </div>
+
+          <div className="flex-1 flex flex-col gap-2 min-h-0">
+            <span className="text-[10px] text-accent-500/80 font-bold tracking-widest uppercase">Waiting for approval ({queue.length})</span>
+            {queue.length === 0 ? (
+              <span className="text-xs text-white/50 italic">New uploads appear here. Approved photos fly onto the tree.</span>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 overflow-y-auto max-h-[50vh] pr-1">
+                {queue.map(u => (
+                  <div key={u.id} className="flex flex-col gap-1 p-2 rounded border border-white/20 bg-white/5">
+                    <img src={u.imageUrl} alt={u.caption || u.name} className="w-full aspect-square object-cover rounded-sm" />
+                    <span className="text-[10px] text-white truncate" title={u.caption}>{u.caption || '—'}</span>
+                    <span className="text-[10px] text-white/50 truncate">{u.name || 'Anonymous'} • {new Date(u.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    <div className="grid grid-cols-2 gap-1">
+                      <button onClick={() => onModerate(u, true)} className="py-1 text-[10px] font-bold tracking-widest uppercase border rounded border-green-500/60 text-green-400 hover:bg-green-500/10">Approve</button>
+                      <button onClick={() => onModerate(u, false)} className="py-1 text-[10px] font-bold tracking-widest uppercase border rounded border-red-500/60 text-red-400/80 hover:bg-red-500/10">Reject</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border rounded border-white/40 text-white/80 hover:bg-white/10">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GuestPanel;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { LogoSettings, DEFAULT_LOGO_SETTINGS, LOGO_TYPES, readLogoFile } from './imageFormation';
+
+interface LogoPanelProps {
+  current: { dataUrl: string; settings: LogoSettings } | null;
+  onApply: (dataUrl: string, image: HTMLImageElement, settings: LogoSettings) => void;
+  onRemove: () => void;
+  onError: (msg: string) => void;
+  onClose: () => void;
+}
+
+const labelClass = "text-[10px] text-accent-500/80 font-bold tracking-widest uppercase";
+const buttonClass = "px-4 py-2 text-xs font-bold tracking-widest uppercase border rounded disabled:opacity-30";
+
+const LogoPanel: React.FC<LogoPanelProps> = ({ current, onApply, onRemove, onError, onClose }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(current?.dataUrl ?? null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [settings, setSettings] = useState<LogoSettings>(current?.settings ?? DEFAULT_LOGO_SETTINGS);
+  const [loading, setLoading] = useState(false);
+
+  const pickFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoading(true);
+    try {
+      const logo = await readLogoFile(file);
+      setDataUrl(logo.dataUrl); setImage(logo.image);
+    } catch (e) {
+      onError(`Logo failed: ${e instanceof Error ? e.message : e}`);
+    } finally { setLoading(false); }
+  };
+
+  // The current logo can be re-applied with new settings without picking the file again
+  const apply = async () => {
+    if (!dataUrl) return;
+    let img = image;
+    if (!img) {
+      img = new Image();
+      img.src = dataUrl;
+      try { await img.decode(); } catch { onError("Logo failed: image could not be decoded"); return; }
+    }
+    onApply(dataUrl, img, settings);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[2000] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" style={{ pointerEvents: 'auto' }}>
+      <div className="w-full max-w-md flex flex-col gap-4 p-6 rounded bg-black/80 border border-accent-500/40 shadow-[0_0_30px_rgb(var(--accent-glow)/0.15)]">
+        <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase border-b border-accent-500/40 pb-2">
+          Logo Formation
+        </span>
+
+        <div className="flex items-center gap-4">
+          <div className="w-24 h-24 shrink-0 rounded border border-white/20 bg-[repeating-conic-gradient(#222_0_25%,#111_0_50%)] bg-[length:16px_16px] flex items-center justify-center overflow-hidden">
+            {dataUrl ? <img src={dataUrl} alt="Logo" className="max-w-full max-h-full object-contain" /> : <span className="text-[10px] text-white/40 tracking-widest">NO LOGO</span>}
+          </div>
+          <label className={`${buttonClass} border-accent-500/80 text-accent-400 hover:bg-accent-500/10 cursor-pointer`}>
+            {loading ? 'Reading...' : 'Choose PNG / SVG'}
+            <input type="file" accept={LOGO_TYPES.join(',')} className="hidden" onChange={e => { pickFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Density: {Math.round(settings.density * 100)}% of particles</span>
+          <input type="range" min={0.1} max={1} step={0.05} value={settings.density} onChange={e => setSettings({ ...settings, density: Number(e.target.value) })} className="accent-[rgb(var(--accent-400))]" />
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Depth: {settings.depth}</span>
+          <input type="range" min={0} max={20} step={1} value={settings.depth} onChange={e => setSettings({ ...settings, depth: Number(e.target.value) })} className="accent-[rgb(var(--accent-400))]" />
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-white tracking-wide">
+          <input type="checkbox" checked={settings.tint} onChange={e => setSettings({ ...settings, tint: e.target.checked })} />
+          Tint particles with the logo colors
+        </label>
+
+        <div className="flex justify-between gap-3 mt-2">
+          <button disabled={!current} onClick={onRemove} className={`${buttonClass} border-red-500/60 text-red-400/80 hover:bg-red-500/10`}>Remove</button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className={`${buttonClass} border-white/40 text-white/80 hover:bg-white/10`}>Close</button>
+            <button disabled={!dataUrl || loading} onClick={apply} className={`${buttonClass} border-accent-500/80 text-accent-400 hover:bg-accent-500/10`}>Form Logo</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LogoPanel;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { AudioSource, AudioState } from './audio';
+
+interface MusicPanelProps {
+  audio: AudioState;
+  reactivity: number;
+  onSource: (source: AudioSource) => void;
+  onPlayTrack: (index: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onReactivity: (value: number) => void;
+  onMute: (muted: boolean) => void;
+  onClose: () => void;
+}
+
+const SOURCES: { id: AudioSource; label: string }[] = [
+  { id: 'OFF', label: 'Off' },
+  { id: 'PLAYLIST', label: 'Playlist' },
+  { id: 'MIC', label: 'Microphone' },
+];
+
+const MusicPanel: React.FC<MusicPanelProps> = ({ audio, reactivity, onSource, onPlayTrack, onAddFiles, onReactivity, onMute, onClose }) => (
+  <div className="absolute inset-0 z-[2000] flex items-end justify-center p-6 pb-40" style={{ pointerEvents: 'auto' }} onClick={onClose}>
+    <div className="w-full max-w-md flex flex-col gap-4 p-6 rounded bg-black/80 border border-accent-500/40 shadow-[0_0_30px_rgb(var(--accent-glow)/0.15)] backdrop-blur-sm" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between border-b border-accent-500/40 pb-2">
+        <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase">Music</span>
+        <button onClick={() => onMute(!audio.muted)} title="Mute (M)" className="px-3 py-1 text-[10px] font-bold tracking-widest uppercase border rounded border-white/40 text-white/80 hover:bg-white/10">
+          {audio.muted ? '🔇 Muted' : '🔊 Sound on'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {SOURCES.map(s => (
+          <button key={s.id} onClick={() => onSource(s.id)}
+            className={`py-2 rounded border text-xs tracking-widest uppercase transition-colors ${audio.source === s.id ? 'border-accent-400 bg-accent-500/10 text-accent-400' : 'border-white/20 text-white/80 hover:border-white/40'}`}>
+            {s.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+        {audio.tracks.length === 0 && <span className="text-xs text-white/50 italic">No songs yet. Add files from this computer or list them in scene-config.json.</span>}
+        {audio.tracks.map((t, i) => (
+          <button key={t.url} onClick={() => onPlayTrack(i)}
+            className={`flex items-center gap-2 px-2 py-1 rounded text-left text-xs truncate ${audio.source === 'PLAYLIST' && audio.track === i ? 'text-accent-400 bg-accent-500/10' : 'text-white/80 hover:bg-white/5'}`}>
+            <span className="w-4 shrink-0">{audio.source === 'PLAYLIST' && audio.track === i ? '♪' : i + 1}</span>
+            <span className="truncate">{t.name}</span>
+          </button>
+        ))}
+      </div>
+      <label className="self-start px-4 py-2 text-xs font-bold tracking-widest uppercase border border-accent-500/80 text-accent-400 rounded hover:bg-accent-500/10 cursor-pointer">
+        Add songs…
+        <input type="file" accept="audio/*" multiple className="hidden" onChange={e => { onAddFiles(Array.from(e.target.files || [])); e.target.value = ''; }} />
+      </label>
+
+      <label className="flex flex-col gap-2">
+        <span className="text-[10px] text-accent-500/80 font-bold tracking-widest uppercase">Light reaction {Math.round(reactivity * 100)}%</span>
+        <input type="range" min={0} max={3} step={0.1} value={reactivity} onChange={e => onReactivity(Number(e.target.value))} className="w-full accent-[rgb(var(--accent-400))]" />
+      </label>
+
+      <div className="flex justify-end">
+        <button onClick={onClose} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border rounded border-white/40 text-white/80 hover:bg-white/10">Close</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default MusicPanel;
@@ -0,0 +1,1819 @@
+import React, { useState, useEffect, useRef, useImperativeHandle } from 'react';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass';
+import { FilesetResolver, HandLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { AppMode, Particle, GestureType, FormationId } from './types';
+import { StoredPhoto, savePhoto, deletePhoto, loadPhotos, createPhotoId, canvasToBlob, blobToCanvas } from './photoStore';
+import GalleryPanel from './GalleryPanel';
+import TextSettingsPanel from './TextSettingsPanel';
+import { VisionAssets, getVisionAssetCandidates } from './visionAssets';
+import { GestureConfig, classifyGesture } from './gestureClassifier';
+import { GestureProfile, DEFAULT_PROFILE_NAME, loadProfiles, saveProfiles, getActiveProfileName, setActiveProfileName, resolveProfileConfig } from './calibration';
+import GestureProfilesPanel from './GestureProfilesPanel';
+import { GestureMachine, RecordGesture, createGestureMachine, createRecordGesture } from './gestureMachine';
+import { createSwipeDetector } from './swipeDetector';
+import { GpuMemoryInfo, disposeObject, disposeComposer, readGpuMemory } from './sceneResources';
+import { RemoteCommand, RemoteController, RemoteStatus, createRemoteReceiver, remoteRotationSpeed } from './remote';
+import { enforcePhotoBudget, restorePhotoTexture, downscalePolaroid, countFullPhotos } from './photoBudget';
+import { InstancedBatch, createInstanceTint, createInstancedBatch } from './instancing';
+import { QUALITY_TIERS, createQualityGovernor } from './qualityGovernor';
+import { OrbitState, attachOrbitControls, applyOrbit, clampOrbit } from './pointerControls';
+import { SceneConfig, DEFAULT_SCENE_CONFIG } from './sceneConfig';
+import { ThemeId, ThemeTransition, ColorBinding, THEMES, loadThemeId, saveThemeId, resolveTheme, shadeHex, createThemeTransition, createThemeUiColors, themeUiBindings, applyThemeUiColors } from './themes';
+import ThemePanel from './ThemePanel';
+import { FormationFrame, getFormation, getPhotosByTime, getFormationTarget, getFormationForGesture, getFormationForKey, layoutFormation, layoutFormations, listFormations, hasFormationTints, applyFormationTints, getLayoutVersion } from './formations';
+import { LogoFormation, LogoSettings, LOGO_FORMATION_ID, createLogoFormation, forgetSavedLogo, saveLogo, loadSavedLogo } from './imageFormation';
+import LogoPanel from './LogoPanel';
+import { TextSettings, getTextPoints, loadTextSettings, saveTextSettings, ensureFontLoaded, getFontWeight } from './textFormation';
+import { POLAROID_WIDTH, drawPolaroid, createPolaroidMesh, loadPolaroidSource } from './polaroid';
+import { GuestInbox, GuestUpload, guestCaption } from './guestUploads';
+import GuestPanel from './GuestPanel';
+import { AudioEngine, AudioSource, AudioState, createAudioEngine, trackName } from './audio';
+import MusicPanel from './MusicPanel';
+import { SceneRecorder, SceneRecording, MAX_RECORDING_MS, startSceneRecording } from './recorder';
+import RecordingPanel from './RecordingPanel';
+import { ShareCard, createShareCard } from './shareCard';
+import SharePanel from './SharePanel';
+import { getFullPhotoCanvas } from './photoExport';
+
+// --- Constants ---
+// Sizes, counts, palette, fog, bloom and camera framing come from the scene config (sceneConfig.ts)
+const LERP_SPEED = 0.035; 
+const TWO_HAND_ZOOM_DEADZONE = 0.01;  // Ignore palm distance jitter below 1%
+const TWO_HAND_TWIST_DEADZONE = 0.005; // rad
+const TWO_HAND_TWIST_GAIN = 1.5;
+const MAX_FRAME_DELTA = 0.1; // s
+const RED_GLOW = 0.44; // Emissive shade of the glossy red baubles
+const GUEST_POLL_MS = 3000;
+const GUEST_PRESENT_MS = 2500; // A guest photo pauses in front of the camera before flying, like a capture
+const RECORD_AUDIO_KEY = 'noel-tree:record-audio';
+
+// Math Cache
+const _tempV1 = new THREE.Vector3();
+const _tempV2 = new THREE.Vector3();
+const _tempQ1 = new THREE.Quaternion();
+
+// --- Helpers ---
+// Converts a per-frame lerp factor (tuned at 60 Hz) into the equivalent factor for a frame of `dt` seconds
+const damp = (ratePerFrame: number, dt: number) => 1 - Math.pow(1 - ratePerFrame, dt * 60);
+
+const loadRecordAudio = () => {
+  try { return localStorage.getItem(RECORD_AUDIO_KEY) !== '0'; } catch { return true; }
+};
+
+const formatClock = (ms: number) => `${Math.floor(ms / 60000)}:${String(Math.floor(ms / 1000) % 60).padStart(2, '0')}`;
+
+const getErrorMessage = (error: unknown): string => {
+    if (!error) return "Unknown Error";
+    if (error instanceof Error) return error.message;
+    return String(error);
+};
+
+const downloadWithProgress = async (url: string, onProgress: (p: number) => void): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Download failed: ${response.status}`);
+  const total = parseInt(response.headers.get('content-length') || '0', 10);
+  if (!total) {
+      const blob = await response.blob();
+      onProgress(100);
+      return URL.createObjectURL(blob);
+  }
+  const reader = response.body?.getReader();
+  if (!reader) {
+       const blob = await response.blob();
+       onProgress(100);
+       return URL.createObjectURL(blob);
+  }
+  let loaded = 0;
+  const chunks = [];
+  while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value) { chunks.push(value); loaded += value.length; onProgress((loaded / total) * 100); }
+  }
+  return URL.createObjectURL(new Blob(chunks));
+};
+
+const shufflePoints = (points: THREE.Vector3[]) => {
+    for (let i = points.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [points[i], points[j]] = [points[j], points[i]];
+    }
+    return points;
+};
+
+// Re-form the TEXT targets in place (photos keep their own drift positions)
+const retargetText = (particles: Particle[], settings: TextSettings) => {
+    const targets = particles.filter(p => !p.isPhoto);
+    const points = shufflePoints(getTextPoints(targets.length, settings.text, settings.font));
+    targets.forEach((p, i) => p.textPos.copy(points[i]));
+};
+
+// One per tree: unmounting a tree disposes it with the snow
+const createSnowflakeTexture = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64; canvas.height = 64;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    const grad = ctx.createRadialGradient(32, 32, 0, 32, 32, 32);
+    grad.addColorStop(0, 'rgba(255, 255, 255, 1)'); 
+    grad.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = grad; ctx.fillRect(0, 0, 64, 64);
+  }
+  return new THREE.CanvasTexture(canvas);
+};
+
+const createStarGeometry = (radius = 1, thickness = 0.5) => {
+  const innerRadius = radius * 0.45;
+  const vertices = [0, 0, thickness, 0, 0, -thickness];
+  const numPoints = 10; 
+  for (let i = 0; i < numPoints; i++) {
+    const r = i % 2 === 0 ? radius : innerRadius;
+    const a = (i / numPoints) * Math.PI * 2 + Math.PI / 2;
+    vertices.push(Math.cos(a) * r, Math.sin(a) * r, 0);
+  }
+  const indices = [];
+  const ringStart = 2; 
+  for (let i = 0; i < numPoints; i++) {
+    const current = ringStart + i;
+    const next = ringStart + ((i + 1) % numPoints);
+    indices.push(0, current, next);
+    indices.push(1, next, current);
+  }
+  const geom = new THREE.BufferGeometry();
+  geom.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+  geom.setIndex(indices);
+  geom.computeVertexNormals();
+  return geom;
+};
+
+const getRandomPhotoTreePos = ({ height, baseRadius }: SceneConfig['tree']): THREE.Vector3 => {
+  const normalizedHeight = (Math.random() * 0.9) - 0.45; 
+  const h = normalizedHeight * height;
+  const maxRadiusAtHeight = (1 - (h + height/2)/height) * baseRadius;
+  const radius = maxRadiusAtHeight * (0.4 + Math.random() * 0.7) + 1.0; 
+  const angle = Math.random() * 6.28;
+  return new THREE.Vector3(Math.cos(angle)*radius, h, Math.sin(angle)*radius);
+};
+
+const createPhotoParticle = (mesh: THREE.Object3D, treePos: THREE.Vector3, id: string, caption: string, createdAt: number): Particle => ({
+  mesh, type: 'PHOTO', treePos,
+  scatterPos: new THREE.Vector3((Math.random()-0.5)*140, (Math.random()-0.5)*140, (Math.random()-0.5)*140),
+  // Assign a random text pos for new items (or center drift)
+  textPos: new THREE.Vector3((Math.random()-0.5)*40, (Math.random()-0.5)*15, 0),
+  velocity: new THREE.Vector3(), rotationSpeed: new THREE.Vector3(), isPhoto: true,
+  id, caption, createdAt
+});
+
+// Types for internal state machine
+type CaptureState = 'IDLE' | 'COUNTDOWN' | 'FLASH' | 'DEVELOPING' | 'FLYING';
+
+const UNDO_MS = 5000; // How long a deleted photo can be brought back
+
+// --- PUBLIC API ---
+export interface PhotoInfo {
+  id: string;
+  caption: string;
+  createdAt: number; // epoch ms
+}
+
+// Drives the tree from code; every call goes through the same paths as gestures, keys and clicks
+export interface NoelTreeHandle {
+  setMode: (mode: FormationId) => void;  // Any registered formation id, ignored while loading
+  getMode: () => FormationId;
+  capturePhoto: () => boolean;           // Starts the countdown, false while a capture is running
+  addPhoto: (imageUrl: string, caption?: string) => Promise<PhotoInfo>; // Framed like a capture, flies onto the tree
+  zoomPhoto: (id: string | null) => boolean; // null closes the zoomed photo
+  deletePhoto: (id: string) => boolean;  // Undoable for a few seconds, like the built-in delete
+  listPhotos: () => PhotoInfo[];         // Capture order
+}
+
+export interface NoelTreeProps {
+  config?: SceneConfig;     // Read once when the tree mounts; change the tree's `key` to apply another
+  configErrors?: string[]; // Shown in the SYSTEM ALERT banner
+  showUi?: boolean;        // Built-in menus, panels and indicators; off for hosts with their own UI
+  keyboard?: boolean;      // Keyboard shortcuts on the window; off when the host page needs the keys
+  remote?: boolean | string; // Phone remote: true listens in this browser, a ws:// URL uses the relay, false is off
+  guests?: GuestInbox;     // Guest uploads (guestUploads.ts); keep the same object across renders
+  theme?: ThemeId;         // Fixes the theme instead of remembering the last one picked on this site
+  onReady?: () => void;    // Loading finished (with or without hand tracking)
+  onModeChange?: (mode: FormationId) => void;
+  onGestureChange?: (gesture: GestureType) => void;
+  onPhotoAdded?: (photo: PhotoInfo) => void;
+  onPhotoZoomed?: (photo: PhotoInfo | null) => void;
+  onError?: (message: string) => void;
+  ref?: React.Ref<NoelTreeHandle>;
+}
+
+const toPhotoInfo = (p: Particle): PhotoInfo => ({ id: p.id || '', caption: p.caption || '', createdAt: p.createdAt || 0 });
+
+const NoelTree: React.FC<NoelTreeProps> = (props) => {
+  const { config = DEFAULT_SCENE_CONFIG, configErrors = [], showUi = true, keyboard = true, remote = true, guests, theme, ref } = props;
+  // Callbacks are read when events happen, so hosts may pass new closures on every render
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const [appMode, setAppMode] = useState<FormationId>(AppMode.LOADING);
+  const [loadingProgress, setLoadingProgress] = useState(0); 
+  const [loadingStage, setLoadingStage] = useState<string>("SYSTEM STARTUP");
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [visionStatus, setVisionStatus] = useState<string>('INIT');
+  const [visionStatusText, setVisionStatusText] = useState<string>('');
+  const [qualityTier, setQualityTier] = useState(0);
+  const [gpuInfo, setGpuInfo] = useState<(GpuMemoryInfo & { photos: number; fullPhotos: number }) | null>(null); // Debug readout, I toggles
+  
+  // Photography State
+  const [captureState, setCaptureState] = useState<CaptureState>('IDLE');
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [flash, setFlash] = useState(false);
+  const [snapshotImage, setSnapshotImage] = useState<string | null>(null); 
+  
+  const [camMessage, setCamMessage] = useState<string>("NOEL ELEGANCE");
+  const [currentGesture, setCurrentGesture] = useState<GestureType>('NONE');
+  const [holdProgress, setHoldProgress] = useState(0); // 0..1 of the active gesture's hold
+  const [recordHold, setRecordHold] = useState(0);     // 0..1 of the two-fist record hold
+  const [galleryPhotos, setGalleryPhotos] = useState<Particle[] | null>(null);
+  const [textSettings, setTextSettings] = useState<TextSettings>(loadTextSettings);
+  const [showTextSettings, setShowTextSettings] = useState(false);
+  const [themeId, setThemeId] = useState<ThemeId>(() => theme ?? loadThemeId());
+  const [showThemes, setShowThemes] = useState(false);
+  const [browse, setBrowse] = useState<{ index: number; total: number } | null>(null);
+  const [undoVisible, setUndoVisible] = useState(false);
+  const [remoteControllers, setRemoteControllers] = useState<RemoteController[]>([]);
+  const [remoteStatus, setRemoteStatus] = useState<RemoteStatus>('CONNECTING');
+  const [guestQueue, setGuestQueue] = useState<GuestUpload[]>([]);
+  const [guestOnline, setGuestOnline] = useState(true);
+  const [showGuests, setShowGuests] = useState(false);
+  const [audioState, setAudioState] = useState<AudioState>({ source: 'OFF', tracks: [], track: -1, muted: false });
+  const [reactivity, setReactivity] = useState(config.audio.reactivity);
+  const [showMusic, setShowMusic] = useState(false);
+  const [recordingInfo, setRecordingInfo] = useState<{ elapsedMs: number; endCard: boolean } | null>(null);
+  const [recordAudio, setRecordAudio] = useState(loadRecordAudio);
+  const [clip, setClip] = useState<SceneRecording | null>(null);
+  const [shareCard, setShareCard] = useState<ShareCard | null>(null);
+  const [shareBusy, setShareBusy] = useState(false);
+  const [logoInfo, setLogoInfo] = useState<{ dataUrl: string; settings: LogoSettings } | null>(null);
+  const [showLogo, setShowLogo] = useState(false);
+  const [gestureProfiles, setGestureProfiles] = useState<GestureProfile[]>(loadProfiles);
+  const [activeProfile, setActiveProfile] = useState<string>(getActiveProfileName);
+  const [showProfiles, setShowProfiles] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const rotationSpeedRef = useRef(0.002); // rad per 60 Hz frame, scaled by frame time
+  const gestureRef = useRef<GestureType>('NONE');
+  const gestureConfigRef = useRef<GestureConfig>(resolveProfileConfig(getActiveProfileName()));
+  const calibrationSinkRef = useRef<((l: NormalizedLandmark[]) => void) | null>(null);
+  const mainGroupRef = useRef<THREE.Group | null>(null);
+  const particlesRef = useRef<Particle[]>([]);
+  const atmosphereRef = useRef<THREE.Points | null>(null);
+  const snowDataRef = useRef<{ velocities: Float32Array; sways: Float32Array }>({
+    velocities: new Float32Array(0), sways: new Float32Array(0)
+  });
+  
+  const zoomedPhotoRef = useRef<Particle | null>(null);
+  const previewingPhotoRef = useRef<Particle | null>(null); 
+  const retakeRef = useRef<Particle | null>(null); // Photo the next capture replaces
+  const showGpuInfoRef = useRef(false);
+  const pendingDeleteRef = useRef<{ particle: Particle; index: number; timer: number } | null>(null);
+  const mountRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null); // Holds this tree's theme colors
+  const modeRef = useRef<FormationId>(AppMode.LOADING);
+  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  const orbitRef = useRef<OrbitState>({ theta: 0, phi: 0, radius: config.camera.distance });
+  const twoHandRef = useRef<{ dist: number; angle: number; bothOpen: boolean } | null>(null);
+  const burstRef = useRef(0); // 1 at the start of a burst scatter, decays to 0
+  const gestureMachineRef = useRef<GestureMachine>(createGestureMachine());
+  const recordGestureRef = useRef<RecordGesture>(createRecordGesture());
+  const isMountedRef = useRef(true);
+  const frameIdRef = useRef<number>(0);
+  const predictRef = useRef<number>(0);
+  const landmarkerRef = useRef<HandLandmarker | null>(null);
+  
+  // Locks
+  const captureStateRef = useRef<CaptureState>('IDLE'); 
+  const lastCaptureTimeRef = useRef(0);
+
+  const textSettingsRef = useRef<TextSettings>(textSettings);
+  const themeTransitionRef = useRef<ThemeTransition | null>(null);
+  const audioRef = useRef<AudioEngine | null>(null);
+  const logoRef = useRef<LogoFormation | null>(null);
+  const reactivityRef = useRef(reactivity);
+  const songUrlsRef = useRef<string[]>([]); // Object URLs of songs added from this computer
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const recorderRef = useRef<SceneRecorder | null>(null);
+  const renderStillRef = useRef<((width: number, height: number) => HTMLCanvasElement) | null>(null);
+
+  // Sync state to ref for loop access
+  useEffect(() => { captureStateRef.current = captureState; }, [captureState]);
+  useEffect(() => { textSettingsRef.current = textSettings; }, [textSettings]);
+  useEffect(() => { reactivityRef.current = reactivity; }, [reactivity]);
+
+  useEffect(() => {
+    if (configErrors.length) setErrorMsg(`Scene config: ${configErrors.join(' | ')}`);
+  }, [configErrors]);
+
+  // --- HOST EVENTS ---
+  const readyRef = useRef(false);
+  useEffect(() => {
+    if (appMode === AppMode.LOADING) return;
+    if (!readyRef.current) { readyRef.current = true; propsRef.current.onReady?.(); }
+    propsRef.current.onModeChange?.(appMode);
+  }, [appMode]);
+  useEffect(() => { if (readyRef.current) propsRef.current.onGestureChange?.(currentGesture); }, [currentGesture]);
+  useEffect(() => { if (errorMsg) propsRef.current.onError?.(errorMsg); }, [errorMsg]);
+
+  // --- PHOTOGRAPHY LOGIC ---
+  const triggerCountdown = () => {
+    // Read the ref: this also runs from long-lived loop and key handler closures
+    if (captureStateRef.current !== 'IDLE') return false;
+    if (Date.now() - lastCaptureTimeRef.current < 4000) return false;
+
+    setCaptureState('COUNTDOWN');
+    setCountdown(3);
+    setCamMessage("SMILE!");
+    return true;
+  };
+
+  useEffect(() => {
+    if (captureState === 'COUNTDOWN' && countdown !== null) {
+      if (countdown > 0) {
+        audioRef.current?.playEffect('tick');
+        const timer = setTimeout(() => setCountdown(c => (c !== null ? c - 1 : 0)), 1000);
+        return () => clearTimeout(timer);
+      } else {
+        takePhoto();
+      }
+    }
+  }, [countdown, captureState]);
+
+  // Puts a polaroid in front of the camera as a new photo ornament, persisted so it survives a reload
+  const spawnPhoto = (cvs: HTMLCanvasElement, caption: string, createdAt: number, treePos: THREE.Vector3): Particle | null => {
+     const group = mainGroupRef.current, camera = cameraRef.current;
+     if (!group || !camera) return null;
+     const mesh = createPolaroidMesh(cvs);
+     camera.localToWorld(_tempV1.fromArray(config.camera.previewOffset));
+     group.worldToLocal(_tempV1);
+     mesh.position.copy(_tempV1);
+     _tempQ1.copy(group.quaternion).invert();
+     mesh.quaternion.copy(_tempQ1.multiply(camera.quaternion));
+     group.add(mesh);
+
+     const p = createPhotoParticle(mesh, treePos, createPhotoId(), caption, createdAt);
+     particlesRef.current.push(p);
+     canvasToBlob(cvs)
+       .then(image => savePhoto({ id: p.id!, image, caption, createdAt, treePos: { x: treePos.x, y: treePos.y, z: treePos.z } }))
+       .catch(e => console.warn("Photo not saved:", e));
+     return p;
+  };
+
+  // Frames an image from a URL like a capture; it flies from the camera onto the tree.
+  // `present` holds it in front of the camera for a moment first, unless a capture is showing.
+  const addPhoto = async (imageUrl: string, caption = textSettingsRef.current.caption, present = false): Promise<PhotoInfo> => {
+     const img = await loadPolaroidSource(imageUrl);
+     const date = new Date();
+     const cvs = drawPolaroid(img, img.naturalWidth, img.naturalHeight, { caption, font: textSettingsRef.current.font, date });
+     const p = spawnPhoto(cvs, caption, date.getTime(), getRandomPhotoTreePos(config.tree));
+     if (!p) throw new Error("The tree is not ready yet");
+     if (present && !previewingPhotoRef.current) {
+         previewingPhotoRef.current = p;
+         setTimeout(() => { if (previewingPhotoRef.current === p) previewingPhotoRef.current = null; }, GUEST_PRESENT_MS);
+     }
+     enforceBudget();
+     propsRef.current.onPhotoAdded?.(toPhotoInfo(p));
+     return toPhotoInfo(p);
+  };
+
+  const takePhoto = () => {
+     const replacing = retakeRef.current;
+     retakeRef.current = null;
+     if (!mainGroupRef.current || !cameraRef.current || !videoRef.current) return;
+     
+     // 1. Flash Phase
+     setCaptureState('FLASH');
+     setFlash(true);
+     audioRef.current?.playEffect('shutter');
+     setCountdown(null);
+     setCamMessage("");
+
+     // 2. Capture Content
+     const now = new Date();
+     const { caption, font } = textSettingsRef.current;
+     const vid = videoRef.current;
+     const live = vid.readyState >= 2;
+     if (live) {
+         // Store raw photo for HTML animation (Mirror)
+         const minDim = Math.min(vid.videoWidth, vid.videoHeight);
+         const photoCvs = document.createElement('canvas');
+         photoCvs.width = photoCvs.height = POLAROID_WIDTH - 48;
+         const pCtx = photoCvs.getContext('2d');
+         if (pCtx) {
+             pCtx.translate(photoCvs.width, 0);
+             pCtx.scale(-1, 1);
+             pCtx.drawImage(vid, (vid.videoWidth - minDim) / 2, (vid.videoHeight - minDim) / 2, minDim, minDim, 0, 0, photoCvs.width, photoCvs.height);
+             setSnapshotImage(photoCvs.toDataURL('image/jpeg', 0.9));
+         }
+     }
+     // Burned-in picture, caption and time for the 3D model
+     const cvs = drawPolaroid(live ? vid : null, vid.videoWidth, vid.videoHeight, { caption, font, date: now, mirror: true });
+
+     // 3. Create 3D Object, hidden while the HTML polaroid develops
+     // A retake takes the replaced photo's spot on the tree
+     const treePos = replacing && particlesRef.current.includes(replacing) ? replacing.treePos.clone() : getRandomPhotoTreePos(config.tree);
+     const newP = spawnPhoto(cvs, caption, now.getTime(), treePos);
+     if (!newP) return;
+     newP.mesh.visible = false; 
+     previewingPhotoRef.current = newP; 
+     enforceBudget();
+     propsRef.current.onPhotoAdded?.(toPhotoInfo(newP));
+
+     // 4. Timing
+     setTimeout(() => {
+         setFlash(false);
+         setCaptureState('DEVELOPING'); 
+     }, 150);
+
+     setTimeout(() => {
+         // --- FLY SEQUENCE ---
+         setCaptureState('FLYING');
+         setSnapshotImage(null); 
+         audioRef.current?.playEffect('whoosh');
+         
+         if (newP.mesh) newP.mesh.visible = true; 
+         previewingPhotoRef.current = null; // Release to tree
+         if (replacing) removePhoto(replacing);
+         
+         lastCaptureTimeRef.current = Date.now();
+         resetGestures();
+
+         setTimeout(() => {
+            setCaptureState('IDLE');
+         }, 1000);
+
+     }, 4500); 
+  };
+
+  const resetGestures = () => {
+    gestureMachineRef.current.reset();
+    gestureRef.current = 'NONE';
+    setCurrentGesture('NONE');
+    setHoldProgress(0);
+    recordGestureRef.current.reset();
+    setRecordHold(0);
+  };
+
+  // --- MODE & RECALL (shared by gestures, keys, clicks and taps) ---
+  // Keeps at most `counts.photoTextures` full-size photo textures, never downscaling what is on screen
+  const enforceBudget = () =>
+    enforcePhotoBudget(particlesRef.current, config.counts.photoTextures, [zoomedPhotoRef.current, previewingPhotoRef.current]);
+
+  const zoomPhoto = (p: Particle | null) => {
+    if (zoomedPhotoRef.current !== p) propsRef.current.onPhotoZoomed?.(p && toPhotoInfo(p));
+    zoomedPhotoRef.current = p;
+    if (!p) { setBrowse(null); return; }
+    const photos = getPhotosByTime(particlesRef.current);
+    setBrowse({ index: photos.indexOf(p), total: photos.length });
+    if (p.archived) restorePhotoTexture(p).then(ok => { if (ok) enforceBudget(); }).catch(e => console.warn("Photo texture not restored:", e));
+  };
+
+  // Formations of this tree only, next to the shared registry: its logo, once one is set
+  const ownFormations = () => logoRef.current?.isSet() ? [logoRef.current.formation] : [];
+
+  const changeMode = (mode: FormationId) => {
+    if (modeRef.current === AppMode.LOADING) return;
+    modeRef.current = mode; setAppMode(mode);
+    zoomPhoto(null);
+  };
+
+  const recallPhoto = () => {
+    if (modeRef.current === AppMode.LOADING || zoomedPhotoRef.current) return;
+    const phs = particlesRef.current.filter(p => p.isPhoto);
+    if (phs.length > 0) zoomPhoto(phs[Math.floor(Math.random()*phs.length)]);
+  };
+
+  const toggleRecall = () => {
+    if (zoomedPhotoRef.current) zoomPhoto(null);
+    else recallPhoto();
+  };
+
+  // Next / previous photo by capture time, wrapping around at either end
+  const stepPhoto = (dir: number) => {
+    const current = zoomedPhotoRef.current;
+    if (!current) return;
+    const photos = getPhotosByTime(particlesRef.current);
+    if (photos.length < 2) return;
+    const i = photos.indexOf(current);
+    zoomPhoto(photos[(i + dir + photos.length) % photos.length]);
+  };
+
+  // --- DELETE, UNDO & RETAKE ---
+  // Removal is immediate; the GPU resources and the stored copy are released when the undo window closes
+  const finalizeDelete = () => {
+    const pending = pendingDeleteRef.current;
+    if (!pending) return;
+    pendingDeleteRef.current = null;
+    clearTimeout(pending.timer);
+    disposeObject(pending.particle.mesh);
+    if (pending.particle.id) deletePhoto(pending.particle.id).catch(e => console.warn("Photo not deleted from storage:", e));
+    setUndoVisible(false);
+  };
+
+  const removePhoto = (p: Particle) => {
+    const index = particlesRef.current.indexOf(p);
+    if (index < 0) return;
+    finalizeDelete(); // One undo slot: an earlier deletion becomes final
+    if (zoomedPhotoRef.current === p) zoomPhoto(null);
+    particlesRef.current.splice(index, 1);
+    p.mesh.parent?.remove(p.mesh);
+    pendingDeleteRef.current = { particle: p, index, timer: window.setTimeout(finalizeDelete, UNDO_MS) };
+    setUndoVisible(true);
+  };
+
+  const deleteZoomedPhoto = () => {
+    if (zoomedPhotoRef.current) removePhoto(zoomedPhotoRef.current);
+  };
+
+  const undoDelete = () => {
+    const pending = pendingDeleteRef.current;
+    if (!pending || !mainGroupRef.current) return;
+    pendingDeleteRef.current = null;
+    clearTimeout(pending.timer);
+    setUndoVisible(false);
+    mainGroupRef.current.add(pending.particle.mesh);
+    particlesRef.current.splice(Math.min(pending.index, particlesRef.current.length), 0, pending.particle);
+    zoomPhoto(pending.particle);
+    enforceBudget();
+  };
+
+  // Captures a new photo that replaces the most recent one once it flies onto the tree
+  const retakePhoto = () => {
+    const last = getPhotosByTime(particlesRef.current).pop();
+    if (triggerCountdown() && last) retakeRef.current = last;
+  };
+
+  // --- PHONE REMOTE ---
+  // Commands take the gesture paths, and like gestures they wait while a capture is running.
+  // A visible hand still steers the spin and overrides the remote's speed.
+  const applyRemote = (command: RemoteCommand) => {
+    if (command.type === 'rotate') { rotationSpeedRef.current = remoteRotationSpeed(command.speed); return; }
+    if (captureStateRef.current !== 'IDLE') return;
+    if (command.type === 'mode') changeMode(command.mode);
+    else if (command.type === 'snap') triggerCountdown();
+    else if (command.type === 'recall') toggleRecall();
+  };
+
+  // --- MUSIC ---
+  // The engine exists for the tree's lifetime; songs from scene-config.json start the playlist
+  useEffect(() => {
+    const engine = createAudioEngine(setAudioState);
+    audioRef.current = engine;
+    engine.setTracks(config.audio.playlist.map(url => ({ name: trackName(url), url })));
+    return () => {
+      engine.dispose();
+      audioRef.current = null;
+      songUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+      songUrlsRef.current = [];
+    };
+  }, []);
+
+  const selectAudioSource = (source: AudioSource) => {
+    const engine = audioRef.current;
+    if (!engine) return;
+    if (source === 'OFF') engine.stop();
+    else if (source === 'PLAYLIST') engine.playPlaylist().catch(e => setErrorMsg(`Music not played: ${getErrorMessage(e)}`));
+    else engine.useMicrophone().catch(e => setErrorMsg(`Microphone unavailable: ${getErrorMessage(e)}`));
+  };
+
+  const addSongs = (files: File[]) => {
+    const songs = files.filter(f => f.type.startsWith('audio/')).map(f => ({ name: trackName(f.name), url: URL.createObjectURL(f) }));
+    if (!songs.length) return;
+    songUrlsRef.current.push(...songs.map(s => s.url));
+    audioRef.current?.setTracks([...audioState.tracks, ...songs]);
+  };
+
+  const toggleMute = () => { if (audioRef.current) audioRef.current.setMuted(!audioState.muted); };
+
+  // --- RECORDING ---
+  // Films the canvas (with bloom) until stopped or MAX_RECORDING_MS, then adds the end card
+  const toggleRecording = () => {
+    if (recorderRef.current) { recorderRef.current.stop(); return; }
+    const canvas = canvasRef.current;
+    if (!canvas || modeRef.current === AppMode.LOADING) return;
+    const accent = mountRef.current ? getComputedStyle(mountRef.current).getPropertyValue('--accent-400').trim() : '';
+    const { caption, font } = textSettingsRef.current;
+    const done = () => { recorderRef.current = null; setRecordingInfo(null); };
+    try {
+      recorderRef.current = startSceneRecording({
+        width: canvas.width, height: canvas.height,
+        audio: recordAudio ? audioRef.current?.getRecordingStream() : null,
+        endCard: { title: 'Merry Christmas', subtitle: [caption, new Date().toLocaleDateString()].filter(Boolean).join(' • '), font, accent: accent ? `rgb(${accent})` : '#facc15' },
+        onTick: elapsedMs => setRecordingInfo({ elapsedMs, endCard: false }),
+        onEndCard: () => setRecordingInfo(r => r && { ...r, endCard: true }),
+        onDone: recording => { done(); setClip(prev => { if (prev) URL.revokeObjectURL(prev.url); return recording; }); },
+        onError: e => { done(); setErrorMsg(`Recording failed: ${e.message}`); },
+      });
+      setRecordingInfo({ elapsedMs: 0, endCard: false });
+    } catch (e) {
+      setErrorMsg(`Recording unavailable: ${getErrorMessage(e)}`);
+    }
+  };
+
+  const toggleRecordAudio = () => {
+    const next = !recordAudio;
+    setRecordAudio(next);
+    try { localStorage.setItem(RECORD_AUDIO_KEY, next ? '1' : '0'); } catch { /* Remembering is optional */ }
+  };
+
+  const closeClip = () => {
+    if (clip) URL.revokeObjectURL(clip.url);
+    setClip(null);
+  };
+
+  // A recording in progress is dropped with the tree
+  useEffect(() => () => { recorderRef.current?.cancel(); recorderRef.current = null; }, []);
+
+  // --- SHARE CARD ---
+  const openShareCard = async () => {
+    const renderScene = renderStillRef.current;
+    if (!renderScene || shareBusy) return;
+    setShareBusy(true);
+    try {
+      const latest = getPhotosByTime(particlesRef.current).pop();
+      const accent = mountRef.current ? getComputedStyle(mountRef.current).getPropertyValue('--accent-400').trim() : '';
+      const { caption, font } = textSettingsRef.current;
+      const card = await createShareCard({
+        renderScene, polaroid: latest ? await getFullPhotoCanvas(latest) : null,
+        caption, font, accent: accent ? `rgb(${accent})` : '#facc15',
+      });
+      setShareCard(prev => { if (prev) URL.revokeObjectURL(prev.url); return card; });
+    } catch (e) {
+      setErrorMsg(`Share card failed: ${getErrorMessage(e)}`);
+    } finally {
+      setShareBusy(false);
+    }
+  };
+
+  const closeShareCard = () => {
+    if (shareCard) URL.revokeObjectURL(shareCard.url);
+    setShareCard(null);
+  };
+
+  // --- GUEST UPLOADS ---
+  // Approved uploads arrive one at a time, each framed and presented like a capture
+  const showGuestPhoto = async (upload: GuestUpload) => {
+    if (!guests) return;
+    await addPhoto(upload.imageUrl, guestCaption(upload), true);
+    await guests.setStatus(upload.id, 'shown');
+  };
+
+  const moderateGuest = (upload: GuestUpload, approve: boolean) => {
+    if (!guests) return;
+    setGuestQueue(q => q.filter(u => u.id !== upload.id));
+    guests.setStatus(upload.id, approve ? 'approved' : 'rejected')
+      .catch(e => setErrorMsg(`Guest photo not ${approve ? 'approved' : 'rejected'}: ${getErrorMessage(e)}`));
+  };
+
+  // Latest handlers for listeners registered once
+  const actionsRef = useRef({ changeMode, toggleRecall, triggerCountdown, zoomPhoto, stepPhoto, deleteZoomedPhoto, undoDelete, retakePhoto, finalizeDelete, addPhoto, removePhoto, applyRemote, showGuestPhoto, toggleMute, toggleRecording, openShareCard });
+  actionsRef.current = { changeMode, toggleRecall, triggerCountdown, zoomPhoto, stepPhoto, deleteZoomedPhoto, undoDelete, retakePhoto, finalizeDelete, addPhoto, removePhoto, applyRemote, showGuestPhoto, toggleMute, toggleRecording, openShareCard };
+
+  useEffect(() => {
+    if (remote === false) return;
+    const receiver = createRemoteReceiver(typeof remote === 'string' ? remote : null, command => actionsRef.current.applyRemote(command), setRemoteControllers, setRemoteStatus);
+    return () => { receiver.close(); setRemoteControllers([]); };
+  }, [remote]);
+
+  useEffect(() => {
+    if (!guests) return;
+    let stopped = false, timer = 0;
+    const attempted = new Set<string>(); // A photo that fails to load is not retried every poll
+    const poll = async () => {
+      try {
+        const uploads = await guests.list();
+        if (stopped) return;
+        setGuestOnline(true);
+        setGuestQueue(uploads.filter(u => u.status === 'pending'));
+        for (const u of uploads) {
+          if (u.status !== 'approved' || attempted.has(u.id) || modeRef.current === AppMode.LOADING) continue;
+          attempted.add(u.id);
+          try { await actionsRef.current.showGuestPhoto(u); }
+          catch (e) { console.warn("Guest photo not shown:", e); continue; }
+          await new Promise(resolve => setTimeout(resolve, GUEST_PRESENT_MS));
+          if (stopped) return;
+        }
+      } catch (e) {
+        if (stopped) return;
+        console.warn("Guest inbox unreachable:", e);
+        setGuestOnline(false);
+      }
+      timer = window.setTimeout(poll, GUEST_POLL_MS);
+    };
+    poll();
+    return () => { stopped = true; clearTimeout(timer); setGuestQueue([]); };
+  }, [guests]);
+
+  const findPhoto = (id: string) => particlesRef.current.find(p => p.isPhoto && p.id === id);
+  useImperativeHandle(ref, () => ({
+    setMode: mode => actionsRef.current.changeMode(mode),
+    getMode: () => modeRef.current,
+    capturePhoto: () => actionsRef.current.triggerCountdown(),
+    addPhoto: (imageUrl, caption) => actionsRef.current.addPhoto(imageUrl, caption),
+    zoomPhoto: id => {
+      const p = id === null ? null : findPhoto(id);
+      if (p === undefined) return false;
+      actionsRef.current.zoomPhoto(p);
+      return true;
+    },
+    deletePhoto: id => {
+      const p = findPhoto(id);
+      if (p) actionsRef.current.removePhoto(p);
+      return !!p;
+    },
+    listPhotos: () => getPhotosByTime(particlesRef.current).map(toPhotoInfo),
+  }), []);
+
+  // A pending deletion is made final when the tree goes away
+  useEffect(() => () => actionsRef.current.finalizeDelete(), []);
+
+  // --- KEYBOARD SHORTCUTS ---
+  useEffect(() => {
+    if (!keyboard) return;
+    const onKey = (e: KeyboardEvent) => {
+      const t = e.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.tagName === 'SELECT' || t.isContentEditable)) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const a = actionsRef.current;
+      switch (e.key.toLowerCase()) {
+        case '1': case 's': a.changeMode(AppMode.SCATTER); break;
+        case '2': case 'g': a.changeMode(AppMode.TREE); break;
+        case '3': case 't': a.changeMode(AppMode.TEXT); break;
+        case ' ': case 'enter': if (e.shiftKey) a.retakePhoto(); else a.triggerCountdown(); break;
+        case 'delete': case 'backspace': a.deleteZoomedPhoto(); break;
+        case 'u': a.undoDelete(); break;
+        case 'i': showGpuInfoRef.current = !showGpuInfoRef.current; if (!showGpuInfoRef.current) setGpuInfo(null); break;
+        case 'r': a.toggleRecall(); break;
+        case 'm': a.toggleMute(); break;
+        case 'v': a.toggleRecording(); break;
+        case 'c': a.openShareCard(); break;
+        case 'escape': a.zoomPhoto(null); break;
+        // Arrows browse while a photo is zoomed, orbit otherwise
+        case 'arrowleft': if (zoomedPhotoRef.current) a.stepPhoto(-1); else orbitRef.current.theta += 0.2; break;
+        case 'arrowright': if (zoomedPhotoRef.current) a.stepPhoto(1); else orbitRef.current.theta -= 0.2; break;
+        case '+': case '=': orbitRef.current.radius = Math.max(40, orbitRef.current.radius * 0.9); break;
+        case '-': orbitRef.current.radius = Math.min(160, orbitRef.current.radius * 1.1); break;
+        default: {
+          const f = getFormationForKey(e.key.toLowerCase(), ownFormations());
+          if (!f) return;
+          a.changeMode(f.id);
+        }
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [keyboard]);
+
+  // --- GALLERY ---
+  const openGallery = () => {
+    setGalleryPhotos(getPhotosByTime(particlesRef.current));
+  };
+
+  // --- LOGO FORMATION ---
+  const applyLogo = (dataUrl: string, image: HTMLImageElement, settings: LogoSettings) => {
+    const logo = logoRef.current;
+    if (!logo) return;
+    logo.set(image, settings);
+    layoutFormation(logo.formation, particlesRef.current, { tree: config.tree });
+    saveLogo(dataUrl, settings);
+    setLogoInfo({ dataUrl, settings });
+    setShowLogo(false);
+    changeMode(LOGO_FORMATION_ID);
+  };
+
+  const removeLogo = () => {
+    logoRef.current?.clear();
+    forgetSavedLogo();
+    setLogoInfo(null);
+    if (modeRef.current === LOGO_FORMATION_ID) changeMode(AppMode.TREE);
+  };
+
+  // --- TEXT FORMATION ---
+  const applyTextSettings = async (next: TextSettings) => {
+    saveTextSettings(next);
+    setTextSettings(next);
+    textSettingsRef.current = next;
+    await ensureFontLoaded(next.font, next.text + next.caption);
+    retargetText(particlesRef.current, next);
+  };
+
+  // --- GESTURE PROFILES ---
+  const selectProfile = (name: string, profiles: GestureProfile[] = gestureProfiles) => {
+    gestureConfigRef.current = resolveProfileConfig(name, profiles);
+    setActiveProfileName(name); setActiveProfile(name);
+  };
+
+  const saveProfile = (profile: GestureProfile) => {
+    const next = [...gestureProfiles.filter(p => p.name !== profile.name), profile];
+    saveProfiles(next); setGestureProfiles(next);
+    selectProfile(profile.name, next);
+  };
+
+  const deleteProfile = (name: string) => {
+    const next = gestureProfiles.filter(p => p.name !== name);
+    saveProfiles(next); setGestureProfiles(next);
+    if (name === activeProfile) selectProfile(DEFAULT_PROFILE_NAME, next);
+  };
+
+  // --- MAIN EFFECT (SCENE INIT) ---
+  useEffect(() => {
+    isMountedRef.current = true;
+    const mount = mountRef.current;
+    if (!mount) return;
+    // The tree fills its container, which is the whole window for the standalone app
+    const getViewSize = () => ({ w: mount.clientWidth || window.innerWidth, h: mount.clientHeight || window.innerHeight });
+    const viewSize = getViewSize();
+    
+    // --- SCENE SETUP ---
+    const { height: TREE_HEIGHT, baseRadius: TREE_BASE_RADIUS, scatterRadius: SCATTER_RADIUS } = config.tree;
+    const theme = resolveTheme(themeId, config.palette);
+    const { palette } = theme;
+    const { ornaments: PARTICLE_COUNT, lights: LIGHT_PARTICLE_COUNT, stars: SMALL_STAR_COUNT, snow: DUST_COUNT } = config.counts;
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(palette.background); 
+    scene.fog = new THREE.FogExp2(palette.background, config.fogDensity); 
+
+    const camera = new THREE.PerspectiveCamera(60, viewSize.w / viewSize.h, 0.1, 1000);
+    camera.position.set(0, 3, config.camera.distance);
+    cameraRef.current = camera;
+    // Eased towards orbitRef, which the pointer controls write to
+    const orbit: OrbitState = { ...orbitRef.current };
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: false, powerPreference: "high-performance" });
+    renderer.setSize(viewSize.w, viewSize.h);
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    // The composer renders several passes per frame; count them all, reset once per frame
+    renderer.info.autoReset = false;
+    
+    if (mount.childElementCount > 0) mount.innerHTML = '';
+    mount.appendChild(renderer.domElement);
+    canvasRef.current = renderer.domElement;
+
+    const composer = new EffectComposer(renderer);
+    composer.addPass(new RenderPass(scene, camera));
+    const bloomPass = new UnrealBloomPass(new THREE.Vector2(viewSize.w, viewSize.h), config.bloom.strength, config.bloom.radius, config.bloom.threshold);
+    composer.addPass(bloomPass);
+
+    scene.add(new THREE.AmbientLight(0xffffff, 0.35));
+    const p1 = new THREE.PointLight(palette.keyLight, 1000, 500); p1.position.set(60, 80, 60); scene.add(p1);
+    const p2 = new THREE.PointLight(palette.fillLight, 500, 400); p2.position.set(-60, -40, 50); scene.add(p2);
+
+    // --- TEXT TARGET POINTS ---
+    const totalParticles = PARTICLE_COUNT + LIGHT_PARTICLE_COUNT + SMALL_STAR_COUNT + 1;
+    const { text, font } = textSettingsRef.current;
+    // Shuffle points for random assignment
+    const textPoints = shufflePoints(getTextPoints(totalParticles, text, font));
+    let textIndex = 0;
+
+    // --- MATERIALS & GEO ---
+    const goldMat = new THREE.MeshStandardMaterial({ color: palette.gold, emissive: palette.gold, emissiveIntensity: 0.3, metalness: 1.0, roughness: 0.05 });
+    const redMat = new THREE.MeshPhysicalMaterial({ color: palette.red, emissive: shadeHex(palette.red, RED_GLOW), emissiveIntensity: 0.2, metalness: 0.4, roughness: 0.1, clearcoat: 1.0 });
+    const matteGreenMat = new THREE.MeshStandardMaterial({ color: palette.green, roughness: 0.8 });
+    const berryMat = new THREE.MeshStandardMaterial({ color: 0xff1100, emissive: 0xff0000, emissiveIntensity: 0.8, roughness: 0.2 });
+    const furMat = new THREE.MeshStandardMaterial({ color: palette.bear, roughness: 1.0 });
+    const muzzleMat = new THREE.MeshStandardMaterial({ color: 0xd2b48c });
+    const whiteMat = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 1.0 });
+
+    const wreathProto = new THREE.Group();
+    wreathProto.add(new THREE.Mesh(new THREE.TorusGeometry(0.5, 0.15, 12, 24), matteGreenMat));
+    const berryGeo = new THREE.SphereGeometry(0.09, 8, 8);
+    for(let i=0; i<8; i++) {
+        const b = new THREE.Mesh(berryGeo, berryMat);
+        const a = (i / 8) * Math.PI * 2;
+        b.position.set(Math.cos(a)*0.5, Math.sin(a)*0.5, 0.1);
+        wreathProto.add(b);
+    }
+    wreathProto.scale.setScalar(1.5);
+
+    const bearProto = new THREE.Group();
+    const bearBody = new THREE.Mesh(new THREE.SphereGeometry(0.4, 16, 16), furMat); bearBody.scale.y = 1.25;
+    const bearHead = new THREE.Mesh(new THREE.SphereGeometry(0.3, 16, 16), furMat); bearHead.position.y = 0.6;
+    const bearMuzzle = new THREE.Mesh(new THREE.SphereGeometry(0.12, 8, 8), muzzleMat); bearMuzzle.position.set(0, 0.55, 0.28);
+    const bearEarGeo = new THREE.SphereGeometry(0.09, 8, 8);
+    const bearEarL = new THREE.Mesh(bearEarGeo, furMat); bearEarL.position.set(0.2, 0.85, 0.1);
+    const bearEarR = new THREE.Mesh(bearEarGeo, furMat); bearEarR.position.set(-0.2, 0.85, 0.1);
+    bearProto.add(bearBody, bearHead, bearMuzzle, bearEarL, bearEarR);
+    bearProto.scale.setScalar(1.5);
+
+    const hatProto = new THREE.Group();
+    const hatBrim = new THREE.Mesh(new THREE.TorusGeometry(0.35, 0.12, 8, 20), whiteMat); hatBrim.rotation.x = Math.PI / 2;
+    const hatBase = new THREE.Mesh(new THREE.CylinderGeometry(0.25, 0.35, 0.35, 16), redMat); hatBase.position.y = 0.18;
+    const hatTop = new THREE.Mesh(new THREE.ConeGeometry(0.25, 0.6, 16), redMat); hatTop.position.set(-0.1, 0.5, 0); hatTop.rotation.z = -0.5;
+    const hatPom = new THREE.Mesh(new THREE.SphereGeometry(0.15, 12, 12), whiteMat); hatPom.position.set(-0.4, 0.8, 0);
+    hatProto.add(hatBrim, hatBase, hatTop, hatPom);
+    hatProto.scale.setScalar(1.7);
+
+    const ballGeo = new THREE.SphereGeometry(0.75, 16, 16);
+    const lightGeo = new THREE.SphereGeometry(0.18, 8, 8);
+    const smallStarGeom = createStarGeometry(0.5, 0.2);
+    const smallStarMat = new THREE.MeshStandardMaterial({ color: palette.star, emissive: palette.star, emissiveIntensity: 0.5 }); 
+    const mainGroup = new THREE.Group(); scene.add(mainGroup); mainGroupRef.current = mainGroup;
+    particlesRef.current = [];
+
+    // --- INSTANCED BATCHES ---
+    // Lights take their color per instance; white base colors keep the instance color exact
+    const instanceTint = createInstanceTint();
+    const lightBatch = createInstancedBatch(new THREE.Mesh(lightGeo, new THREE.MeshStandardMaterial({ color: 0xffffff, emissive: 0xffffff, emissiveIntensity: 1.0 })), LIGHT_PARTICLE_COUNT, { emissive: true, tint: instanceTint });
+    const smallStarBatch = createInstancedBatch(new THREE.Mesh(smallStarGeom, smallStarMat), SMALL_STAR_COUNT, { tint: instanceTint });
+    const wreathBatch = createInstancedBatch(wreathProto, PARTICLE_COUNT, { tint: instanceTint });
+    const hatBatch = createInstancedBatch(hatProto, PARTICLE_COUNT, { tint: instanceTint });
+    const bearBatch = createInstancedBatch(bearProto, PARTICLE_COUNT, { tint: instanceTint });
+    const goldBallBatch = createInstancedBatch(new THREE.Mesh(ballGeo, goldMat), PARTICLE_COUNT, { tint: instanceTint });
+    const redBallBatch = createInstancedBatch(new THREE.Mesh(ballGeo, redMat), PARTICLE_COUNT, { tint: instanceTint });
+    const batches = [lightBatch, smallStarBatch, wreathBatch, hatBatch, bearBatch, goldBallBatch, redBallBatch];
+    batches.forEach(b => mainGroup.add(...b.meshes));
+
+    // Instanced particles animate a detached transform that is copied into their batch every frame
+    const spawnInstance = (batch: InstancedBatch) => ({ mesh: new THREE.Object3D(), instance: { batch, index: batch.add() } });
+
+    const getNextTextPos = () => {
+        if (textIndex < textPoints.length) return textPoints[textIndex++];
+        return new THREE.Vector3();
+    }
+
+    const topperMat = new THREE.MeshStandardMaterial({
+      color: palette.starCore, emissive: palette.star, emissiveIntensity: 0.4, metalness: 1.0, roughness: 0.05
+    });
+    const topper = new THREE.Mesh(createStarGeometry(5, 1.5), topperMat);
+    topper.position.set(0, TREE_HEIGHT/2 + 5, 0); mainGroup.add(topper);
+    particlesRef.current.push({ mesh: topper, type: 'STAR_ORNAMENT', treePos: topper.position.clone(), scatterPos: new THREE.Vector3(0, 75, 0), textPos: getNextTextPos(), velocity: new THREE.Vector3(), rotationSpeed: new THREE.Vector3(0, 0.01, 0) });
+
+    // One color per light so theme changes can blend them; the palette slot is kept across themes
+    const lightColors: THREE.Color[] = [];
+    const lightBindings: ColorBinding[] = [];
+    for (let i = 0; i < LIGHT_PARTICLE_COUNT; i++) {
+        const slot = Math.floor(Math.random() * palette.lights.length);
+        const { mesh: lightMesh, instance } = spawnInstance(lightBatch);
+        const lightColor = new THREE.Color(palette.lights[slot]);
+        lightColors[instance.index] = lightColor;
+        lightBindings.push([lightColor, t => t.palette.lights[slot % t.palette.lights.length]]);
+        lightBatch.setColorAt(instance.index, lightColor);
+        const hN = Math.pow(Math.random(), 0.95); const y = (hN * TREE_HEIGHT) - (TREE_HEIGHT / 2);
+        const mR = TREE_BASE_RADIUS * (1.0 - (y + TREE_HEIGHT/2) / TREE_HEIGHT);
+        const tP = new THREE.Vector3(Math.cos(Math.random()*6.28)*mR*(0.2+0.8*Math.sqrt(Math.random())), y, Math.sin(Math.random()*6.28)*mR*(0.2+0.8*Math.sqrt(Math.random())));
+        const sP = new THREE.Vector3((Math.random()-0.5)*170, (Math.random()-0.5)*170, (Math.random()-0.5)*170);
+        lightMesh.position.copy(sP);
+        lightMesh.userData.phase = Math.random() * Math.PI * 2;
+        lightMesh.userData.speed = 1.2 + Math.random() * 2.0;
+        particlesRef.current.push({ mesh: lightMesh, instance, type: 'LIGHT', treePos: tP, scatterPos: sP, textPos: getNextTextPos(), velocity: new THREE.Vector3(), rotationSpeed: new THREE.Vector3() });
+    }
+
+    for (let i = 0; i < SMALL_STAR_COUNT; i++) {
+        const { mesh: smStar, instance } = spawnInstance(smallStarBatch);
+        const hN = Math.pow(Math.random(), 0.9); const y = (hN * TREE_HEIGHT) - (TREE_HEIGHT / 2);
+        const mR = TREE_BASE_RADIUS * (1.0 - (y + TREE_HEIGHT/2) / TREE_HEIGHT);
+        const tP = new THREE.Vector3(Math.cos(Math.random()*6.28)*mR*(0.1+0.9*Math.sqrt(Math.random())), y, Math.sin(Math.random()*6.28)*mR*(0.1+0.9*Math.sqrt(Math.random())));
+        const sP = new THREE.Vector3((Math.random()-0.5)*160, (Math.random()-0.5)*160, (Math.random()-0.5)*160);
+        smStar.position.copy(sP); smStar.rotation.set(Math.random()*6.28, Math.random()*6.28, Math.random()*6.28);
+        particlesRef.current.push({ mesh: smStar, instance, type: 'ORNAMENT', treePos: tP, scatterPos: sP, textPos: getNextTextPos(), velocity: new THREE.Vector3(), rotationSpeed: new THREE.Vector3(Math.random()*0.02, Math.random()*0.02, Math.random()*0.02) });
+    }
+
+    for (let i = 0; i < PARTICLE_COUNT; i++) {
+      let pt: Particle['type'] = 'ORNAMENT';
+      const r = Math.random();
+      const batch = r < 0.12 ? wreathBatch : r < 0.25 ? hatBatch : r < 0.35 ? bearBatch : r > 0.88 ? redBallBatch : goldBallBatch;
+      const { mesh: m, instance } = spawnInstance(batch);
+      const hN = Math.pow(Math.random(), 0.9); const y = (hN * TREE_HEIGHT) - (TREE_HEIGHT / 2);
+      const mR = TREE_BASE_RADIUS * (1.0 - (y + TREE_HEIGHT/2) / TREE_HEIGHT);
+      const tP = new THREE.Vector3(Math.cos(Math.random()*6.28)*mR*(0.2+0.8*Math.sqrt(Math.random())), y, Math.sin(Math.random()*6.28)*mR*(0.2+0.8*Math.sqrt(Math.random())));
+      const ph=Math.acos(2*Math.random()-1), th=2*3.14*Math.random(), rS=SCATTER_RADIUS*(0.8+0.7*Math.random());
+      const sP = new THREE.Vector3(rS*Math.sin(ph)*Math.cos(th), rS*Math.sin(ph)*Math.sin(th), rS*Math.cos(ph));
+      m.position.copy(sP);
+      particlesRef.current.push({ mesh: m, instance, type: pt, treePos: tP, scatterPos: sP, textPos: getNextTextPos(), velocity: new THREE.Vector3(), rotationSpeed: new THREE.Vector3((Math.random()-0.5)*0.03, (Math.random()-0.5)*0.05, (Math.random()-0.5)*0.03) });
+    }
+
+    layoutFormations(particlesRef.current, { tree: config.tree });
+    const logo = createLogoFormation();
+    logoRef.current = logo;
+    loadSavedLogo().then(saved => {
+        if (!saved || !isMountedRef.current || mainGroupRef.current !== mainGroup) return;
+        logo.set(saved.image, saved.settings);
+        layoutFormation(logo.formation, particlesRef.current, { tree: config.tree });
+        setLogoInfo({ dataUrl: saved.dataUrl, settings: saved.settings });
+    });
+
+    const snowGeo = new THREE.BufferGeometry();
+    const snowPos = new Float32Array(DUST_COUNT * 3);
+    const vels = new Float32Array(DUST_COUNT);
+    const sws = new Float32Array(DUST_COUNT);
+    for (let i = 0; i < DUST_COUNT; i++) { 
+        snowPos[i*3] = (Math.random()-0.5)*250; snowPos[i*3+1] = (Math.random()-0.5)*200; snowPos[i*3+2] = (Math.random()-0.5)*250; 
+        vels[i] = 0.1 + Math.random() * 0.15; sws[i] = Math.random() * 6.28;
+    }
+    snowDataRef.current = { velocities: vels, sways: sws };
+    snowGeo.setAttribute('position', new THREE.BufferAttribute(snowPos, 3));
+    const snow = new THREE.Points(snowGeo, new THREE.PointsMaterial({ 
+        color: 0xffffff, size: 0.8, map: createSnowflakeTexture(), transparent: true, opacity: 0.35, depthWrite: false, blending: THREE.AdditiveBlending, sizeAttenuation: true 
+    }));
+    scene.add(snow); atmosphereRef.current = snow;
+
+    // --- ADAPTIVE QUALITY ---
+    const governor = createQualityGovernor();
+    let snowCount = DUST_COUNT;
+    const applyRenderSize = () => {
+        const tier = QUALITY_TIERS[governor.tier];
+        const { w, h } = getViewSize();
+        const pr = Math.min(window.devicePixelRatio, tier.pixelRatio);
+        renderer.setPixelRatio(pr); renderer.setSize(w, h);
+        composer.setPixelRatio(pr); composer.setSize(w, h);
+        // The composer sizes every pass to the canvas; shrink the bloom targets afterwards
+        bloomPass.setSize(Math.round(w * pr * tier.bloomScale), Math.round(h * pr * tier.bloomScale));
+    };
+    const applyQuality = () => {
+        const tier = QUALITY_TIERS[governor.tier];
+        applyRenderSize();
+        snowCount = Math.round(DUST_COUNT * tier.snowFraction);
+        snowGeo.setDrawRange(0, snowCount);
+        batches.forEach(b => b.setVisibleFraction(tier.particleFraction));
+        setQualityTier(governor.tier);
+    };
+    applyQuality();
+
+    // --- THEME ---
+    const uiColors = createThemeUiColors(theme.ui);
+    const fog = scene.fog as THREE.FogExp2;
+    const themeTransition = createThemeTransition([
+        [scene.background as THREE.Color, t => t.palette.background], [fog.color, t => t.palette.background],
+        [p1.color, t => t.palette.keyLight], [p2.color, t => t.palette.fillLight],
+        [goldMat.color, t => t.palette.gold], [goldMat.emissive, t => t.palette.gold],
+        [redMat.color, t => t.palette.red], [redMat.emissive, t => shadeHex(t.palette.red, RED_GLOW)],
+        [matteGreenMat.color, t => t.palette.green], [furMat.color, t => t.palette.bear],
+        [smallStarMat.color, t => t.palette.star], [smallStarMat.emissive, t => t.palette.star],
+        [topperMat.color, t => t.palette.starCore], [topperMat.emissive, t => t.palette.star],
+        ...lightBindings,
+        ...themeUiBindings(uiColors),
+    ]);
+    themeTransitionRef.current = themeTransition;
+
+    // The first rasterization may run before the web font arrives
+    ensureFontLoaded(font, text).then(() => { if (isMountedRef.current) retargetText(particlesRef.current, textSettingsRef.current); });
+
+    // --- RESTORE SAVED PHOTOS ---
+    const restorePhotos = async () => {
+        let saved: StoredPhoto[];
+        try { saved = await loadPhotos(); } catch (e) { console.warn("Photo restore failed:", e); return; }
+        // Oldest first: the ones beyond the texture budget start out archived
+        const archiveCount = saved.length - config.counts.photoTextures;
+        let restored = 0;
+        for (const [i, rec] of saved.entries()) {
+            let cvs: HTMLCanvasElement;
+            // One unreadable photo must not cost the rest of the gallery; it stays stored untouched
+            try { cvs = await blobToCanvas(rec.image); } catch (e) { console.warn(`Photo ${rec.id} could not be restored:`, e); continue; }
+            if (!isMountedRef.current || mainGroupRef.current !== mainGroup) return;
+            const archived = i < archiveCount;
+            const mesh = createPolaroidMesh(archived ? downscalePolaroid(cvs) : cvs);
+            const p = createPhotoParticle(mesh, new THREE.Vector3(rec.treePos.x, rec.treePos.y, rec.treePos.z), rec.id, rec.caption, rec.createdAt);
+            p.archived = archived;
+            mesh.position.copy(p.scatterPos);
+            mainGroup.add(mesh);
+            particlesRef.current.push(p);
+            restored++;
+        }
+        if (saved.length) console.log(`[System]: Restored ${restored} of ${saved.length} photos`);
+    };
+    restorePhotos();
+
+    const clock = new THREE.Clock();
+    let appliedTint = '';
+    let gpuInfoAt = 0;
+
+    const animate = () => {
+        frameIdRef.current = requestAnimationFrame(animate);
+        // All rates below are tuned "per 60 Hz frame" and scaled by the real frame time.
+        // Clamp the delta so a backgrounded tab does not teleport everything on return.
+        const rawDt = clock.getDelta();
+        const dt = Math.min(rawDt, MAX_FRAME_DELTA);
+        const frames = dt * 60;
+        const time = clock.elapsedTime;
+        const mode = modeRef.current;
+        // Model loading stalls the main thread, so only judge performance once the scene is live
+        if (mode !== AppMode.LOADING && governor.sample(rawDt * 1000, time * 1000) !== null) applyQuality();
+        if (burstRef.current > 0.01) burstRef.current *= Math.pow(0.97, frames); else burstRef.current = 0;
+        const burst = burstRef.current;
+        // Music bands, all zero while the audio is off
+        const bands = audioRef.current?.getBands(dt);
+        const react = reactivityRef.current;
+        const beat = bands ? bands.bass * react : 0, sparkle = bands ? (bands.treble * 1.5 + bands.mid * 0.5) * react : 0;
+        bloomPass.strength = config.bloom.strength * (1 + beat * 1.2);
+
+        // Ease the camera towards the requested orbit
+        const o = orbitRef.current;
+        const orbitEase = damp(0.15, dt);
+        orbit.theta += (o.theta - orbit.theta) * orbitEase; orbit.phi += (o.phi - orbit.phi) * orbitEase; orbit.radius += (o.radius - orbit.radius) * orbitEase;
+        applyOrbit(camera, orbit);
+        
+        const formation = getFormation(mode, ownFormations());
+        if (formation?.faceCamera) {
+             // Ease the nearest full turn of the group towards the camera
+             const facing = orbit.theta + Math.round((mainGroup.rotation.y - orbit.theta) / (Math.PI * 2)) * Math.PI * 2;
+             mainGroup.rotation.y += (facing - mainGroup.rotation.y) * damp(0.05, dt);
+        } else {
+             mainGroup.rotation.y += rotationSpeedRef.current * (formation?.spin ?? 1) * (1 + (bands ? bands.level * 2 * react : 0)) * frames;
+        }
+        const frame: FormationFrame = { time, burst, particles: particlesRef.current };
+        const photoScale = formation?.photoScale?.(frame) ?? 1;
+
+        // Formations with colors tint the instanced particles while active, and fade back afterwards
+        const tinted = hasFormationTints(mode, particlesRef.current);
+        const tintKey = `${mode}:${getLayoutVersion(particlesRef.current)}`;
+        if (tinted && tintKey !== appliedTint) { appliedTint = tintKey; applyFormationTints(mode, particlesRef.current); }
+        instanceTint.value += ((tinted ? 1 : 0) - instanceTint.value) * damp(0.05, dt);
+
+        const photoEase = damp(0.15, dt), zoomScaleEase = damp(0.12, dt), photoScaleEase = damp(0.1, dt);
+        const morphEase = damp(burst > 0 ? LERP_SPEED * 2 : LERP_SPEED, dt);
+
+        particlesRef.current.forEach(p => {
+            if (p.instance && !p.instance.batch.isVisible(p.instance.index)) return;
+            if (p.type === 'LIGHT' && p.instance) {
+                const twinkle = Math.sin(time * p.mesh.userData.speed + p.mesh.userData.phase);
+                p.instance.batch.setEmissiveAt(p.instance.index, (9.0 + twinkle * 3.0) * (1 + sparkle)); 
+                const s = 1.0 + twinkle * 0.12 + beat * 0.35;
+                p.mesh.scale.set(s, s, s);
+            }
+            if (previewingPhotoRef.current === p) {
+                // LOCK PHOTO TO CAMERA VIEW (Center Screen)
+                if (p.mesh.visible) {
+                    camera.localToWorld(_tempV1.fromArray(config.camera.previewOffset));
+                    p.mesh.parent?.worldToLocal(_tempV1);
+                    p.mesh.position.copy(_tempV1);
+                    _tempQ1.copy(mainGroup.quaternion).invert();
+                    p.mesh.quaternion.copy(_tempQ1.multiply(camera.quaternion));
+                }
+                return;
+            }
+            if (zoomedPhotoRef.current === p) {
+                camera.localToWorld(_tempV1.fromArray(config.camera.zoomOffset)); p.mesh.parent?.worldToLocal(_tempV1);
+                p.mesh.position.lerp(_tempV1, photoEase);
+                _tempQ1.copy(mainGroup.quaternion).invert();
+                p.mesh.quaternion.slerp(_tempQ1.multiply(camera.quaternion), photoEase);
+                p.mesh.scale.lerp(_tempV1.setScalar(3.0), zoomScaleEase);
+                return;
+            }
+            if (p.isPhoto) {
+                p.mesh.scale.lerp(_tempV1.setScalar(photoScale), photoScaleEase);
+                if (formation?.photosFaceFront) p.mesh.quaternion.slerp(_tempQ1.identity(), photoEase);
+            }
+            
+            // TARGET SELECTION
+            const target = formation ? getFormationTarget(formation, p, frame, _tempV2) : p.scatterPos;
+
+            p.mesh.position.lerp(target, morphEase);
+            p.mesh.rotation.x += p.rotationSpeed.x * frames; p.mesh.rotation.y += p.rotationSpeed.y * frames; p.mesh.rotation.z += p.rotationSpeed.z * frames;
+            if (p.instance) p.instance.batch.setTransform(p.instance.index, p.mesh);
+        });
+        if (themeTransition.update(dt)) {
+            lightColors.forEach((c, i) => lightBatch.setColorAt(i, c));
+            if (containerRef.current) applyThemeUiColors(uiColors, containerRef.current);
+        }
+        batches.forEach(b => b.commit());
+
+        if (atmosphereRef.current) {
+            const pos = atmosphereRef.current.geometry.attributes.position.array as Float32Array;
+            const { velocities, sways } = snowDataRef.current;
+            for (let i = 0; i < snowCount; i++) {
+                pos[i*3+1] -= velocities[i] * frames; sways[i] += 0.012 * frames; pos[i*3] += Math.sin(sways[i]) * 0.04 * frames;
+                if (pos[i*3+1] < -120) pos[i*3+1] = 120;
+            }
+            atmosphereRef.current.geometry.attributes.position.needsUpdate = true;
+        }
+        renderer.info.reset();
+        composer.render();
+        // Same task as the render, while the drawing buffer still holds the frame
+        recorderRef.current?.drawFrame(renderer.domElement);
+        if (showGpuInfoRef.current && time - gpuInfoAt > 1) {
+            gpuInfoAt = time;
+            const photos = particlesRef.current.filter(p => p.isPhoto).length;
+            setGpuInfo({ ...readGpuMemory(renderer), photos, fullPhotos: countFullPhotos(particlesRef.current) });
+        }
+    };
+    animate();
+    
+    const classifyHand = (l: NormalizedLandmark[]): GestureType => classifyGesture(l, gestureConfigRef.current).gesture;
+
+    // Skip re-renders for sub-2% changes, but always land exactly on 0 and 1
+    const setProgress = (set: React.Dispatch<React.SetStateAction<number>>, value: number) =>
+        set(prev => (Math.abs(prev - value) > 0.02 || value === 0 || value === 1) ? value : prev);
+
+    // --- TWO-FIST RECORD ---
+    // Fed NONE while fewer than two hands are seen, so a hand dropping out for a frame keeps the hold
+    const updateRecordHold = (ga: GestureType, gb: GestureType) => {
+        const r = recordGestureRef.current.update(ga, gb, performance.now());
+        setProgress(setRecordHold, r.progress);
+        if (r.fired) actionsRef.current.toggleRecording();
+    };
+
+    // --- TWO-HAND CONTROL ---
+    // Distance between palms zooms, tilting the line between them turns the tree, two open palms burst,
+    // two fists held record.
+    const handleTwoHands = (h1: NormalizedLandmark[], h2: NormalizedLandmark[]) => {
+        // Order left-to-right so the angle does not flip when the tracker swaps hands
+        const [a, b] = h1[9].x <= h2[9].x ? [h1, h2] : [h2, h1];
+        const ga = classifyHand(a), gb = classifyHand(b);
+        const dist = Math.hypot(a[9].x - b[9].x, a[9].y - b[9].y);
+        const angle = Math.atan2(b[9].y - a[9].y, b[9].x - a[9].x);
+        const bothOpen = ga === 'OPEN_PALM' && gb === 'OPEN_PALM';
+
+        if (gestureMachineRef.current.active !== 'NONE') resetGestures();
+        updateRecordHold(ga, gb);
+
+        const prev = twoHandRef.current;
+        if (prev) {
+            const ratio = prev.dist / Math.max(dist, 0.01);
+            if (Math.abs(ratio - 1) > TWO_HAND_ZOOM_DEADZONE) {
+                orbitRef.current.radius *= ratio;
+                clampOrbit(orbitRef.current);
+            }
+            const dAngle = Math.max(-0.3, Math.min(0.3, angle - prev.angle));
+            // The preview is mirrored, so a clockwise twist on screen is counter-clockwise in camera space
+            if (Math.abs(dAngle) > TWO_HAND_TWIST_DEADZONE) mainGroup.rotation.y -= dAngle * TWO_HAND_TWIST_GAIN;
+            if (bothOpen && !prev.bothOpen) { changeMode(AppMode.SCATTER); burstRef.current = 1; }
+        }
+        twoHandRef.current = { dist, angle, bothOpen };
+    };
+
+    // --- ONE-HAND GESTURES ---
+    // Raw classifications go through the time-based state machine; actions fire on its transitions
+    const applyGesture = (raw: GestureType) => {
+        const u = gestureMachineRef.current.update(raw, performance.now());
+        gestureRef.current = u.active;
+        setCurrentGesture(prev => prev !== u.active ? u.active : prev);
+        // A held fist only deletes while a photo is zoomed, elsewhere it just gathers the tree
+        const zoomed = !!zoomedPhotoRef.current;
+        setProgress(setHoldProgress, u.active === 'FIST' && !zoomed ? 0 : u.holdProgress);
+
+        if (u.exited === 'L_SHAPE' || u.exited === 'FIST') setCamMessage("NOEL ELEGANCE");
+        // While browsing, the open palm swipes and the fist crumples the photo: neither changes the formation
+        const browsing = zoomed && (u.entered === 'OPEN_PALM' || u.entered === 'FIST');
+        const bound = u.entered && !browsing ? getFormationForGesture(u.entered, ownFormations()) : undefined;
+        if (bound) changeMode(bound.id);
+        else if (u.entered === 'L_SHAPE') setCamMessage("HOLD STEADY...");
+        else if (u.entered === 'FIST' && zoomed) setCamMessage("HOLD TO DELETE...");
+
+        if (u.holdCompleted === 'PINCH') recallPhoto();
+        else if (u.holdCompleted === 'L_SHAPE') triggerCountdown();
+        else if (u.holdCompleted === 'FIST' && zoomed) actionsRef.current.deleteZoomedPhoto();
+    };
+
+    // --- PREDICTION LOOP ---
+    const swipe = createSwipeDetector();
+    const predictLoop = () => {
+        if (!isMountedRef.current) return;
+        
+        const vid = videoRef.current;
+        const landmarker = landmarkerRef.current;
+
+        if (vid && vid.readyState >= 2 && landmarker) {
+            if (vid.paused) vid.play().catch(e => console.warn("Auto-resume failed", e));
+            try {
+                if (captureStateRef.current !== 'IDLE' || Date.now() - lastCaptureTimeRef.current < 2000) {
+                     if (gestureMachineRef.current.active !== 'NONE') resetGestures();
+                     predictRef.current = requestAnimationFrame(predictLoop);
+                     return;
+                }
+
+                const res = landmarker.detectForVideo(vid, performance.now());
+                const hands = res.landmarks || [];
+                if (calibrationSinkRef.current) {
+                    // Calibration owns the hand: record it, trigger nothing
+                    if (gestureMachineRef.current.active !== 'NONE') resetGestures();
+                    if (hands[0]) calibrationSinkRef.current(hands[0]);
+                } else if (hands.length >= 2) {
+                    handleTwoHands(hands[0], hands[1]);
+                } else {
+                    twoHandRef.current = null;
+                    updateRecordHold('NONE', 'NONE');
+                    if (hands[0]) rotationSpeedRef.current = (0.5 - hands[0][0].x) * 0.035;
+                    if (hands[0] && zoomedPhotoRef.current) {
+                        const dir = swipe.update(hands[0][9].x, performance.now());
+                        if (dir) actionsRef.current.stepPhoto(dir);
+                    } else swipe.reset();
+                    applyGesture(hands[0] ? classifyHand(hands[0]) : 'NONE');
+                }
+            } catch (err) { console.warn(err); }
+        }
+        predictRef.current = requestAnimationFrame(predictLoop);
+    };
+    predictLoop();
+
+    const startSystem = async () => {
+        if (!isMountedRef.current) return;
+        setVisionStatus('INIT'); setVisionStatusText("REQUESTING CAMERA..."); setLoadingStage("ALLOW CAMERA ACCESS..."); setLoadingProgress(5);
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ 
+                video: { facingMode: "user", width: { ideal: 640 }, height: { ideal: 480 } }, audio: false
+            });
+            if (!isMountedRef.current) { stream.getTracks().forEach(t => t.stop()); return; }
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+                await new Promise<void>((resolve) => {
+                    if (!videoRef.current) return resolve();
+                    videoRef.current.onloadedmetadata = () => { videoRef.current?.play().then(resolve).catch(resolve); };
+                });
+            }
+            setVisionStatus('CAMERA'); setVisionStatusText("CAMERA ACTIVE"); setLoadingProgress(15);
+        } catch (e: any) {
+            setErrorMsg("Camera Access Denied. Use keys 1-3, Space and R, or tap the menu icons."); setVisionStatus('ERROR'); setVisionStatusText("CAMERA BLOCKED");
+            setLoadingProgress(100);
+            setTimeout(() => { if (isMountedRef.current) { setAppMode(AppMode.TREE); modeRef.current = AppMode.TREE; } }, 2000);
+            return;
+        }
+
+        setVisionStatus('DOWNLOADING'); setVisionStatusText("LOADING AI BRAIN..."); setLoadingStage("DOWNLOADING AI ENGINE...");
+        try {
+            const loadLandmarker = async (assets: VisionAssets) => {
+                const vision = await FilesetResolver.forVisionTasks(assets.wasmUrl);
+                setLoadingProgress(30); setLoadingStage(assets.source === 'LOCAL' ? "LOADING LOCAL MODEL..." : "DOWNLOADING MODEL (12MB)...");
+                const blobUrl = await downloadWithProgress(assets.modelUrl, (pct) => setLoadingProgress(30 + (pct * 0.6)));
+                if (!isMountedRef.current) return null;
+
+                setLoadingStage("STARTING NEURAL NET..."); setLoadingProgress(95);
+                try {
+                    return await HandLandmarker.createFromOptions(vision, { baseOptions: { modelAssetPath: blobUrl, delegate: "GPU" }, runningMode: "VIDEO", numHands: 2 });
+                } catch(gpuError) {
+                    return await HandLandmarker.createFromOptions(vision, { baseOptions: { modelAssetPath: blobUrl, delegate: "CPU" }, runningMode: "VIDEO", numHands: 2 });
+                }
+            };
+
+            // Self-hosted assets first, the CDN only when they are missing or broken
+            let landmarker: HandLandmarker | null = null;
+            let lastError: unknown = null;
+            for (const assets of await getVisionAssetCandidates()) {
+                try { landmarker = await loadLandmarker(assets); lastError = null; break; }
+                catch (e) { lastError = e; console.warn(`Vision assets (${assets.source}) failed:`, e); }
+            }
+            if (lastError) throw lastError;
+            if (!landmarker || !isMountedRef.current) return;
+            landmarkerRef.current = landmarker;
+
+            setLoadingProgress(100); setVisionStatus('READY'); setVisionStatusText("AI ACTIVE");
+            setTimeout(() => setVisionStatusText(''), 3000);
+            setTimeout(() => {
+              if (isMountedRef.current) { setAppMode(AppMode.TREE); modeRef.current = AppMode.TREE; }
+            }, 500);
+        } catch (e: unknown) {
+            const msg = getErrorMessage(e); setErrorMsg(`AI Error: ${msg}`); setVisionStatus('ERROR');
+            setLoadingProgress(100);
+            setTimeout(() => { if (isMountedRef.current) { setAppMode(AppMode.TREE); modeRef.current = AppMode.TREE; } }, 2000);
+        }
+    };
+    startSystem();
+
+    const onResize = () => {
+        if (!cameraRef.current) return;
+        const { w, h } = getViewSize();
+        cameraRef.current.aspect = w / h; cameraRef.current.updateProjectionMatrix();
+        applyRenderSize();
+    };
+    // Follows the container, not just the window, so embedded trees resize with their layout
+    const resizeObserver = new ResizeObserver(onResize);
+    resizeObserver.observe(mount);
+
+    // One frame at the requested size for the share card, then back to the live size
+    renderStillRef.current = (width, height) => {
+        const max = renderer.capabilities.maxTextureSize;
+        const scale = Math.min(1, max / Math.max(width, height));
+        const w = Math.round(width * scale), h = Math.round(height * scale);
+        camera.aspect = w / h; camera.updateProjectionMatrix();
+        renderer.setPixelRatio(1); renderer.setSize(w, h, false);
+        composer.setPixelRatio(1); composer.setSize(w, h);
+        renderer.info.reset();
+        composer.render();
+        const still = document.createElement('canvas');
+        still.width = w; still.height = h;
+        still.getContext('2d')?.drawImage(renderer.domElement, 0, 0);
+        onResize();
+        return still;
+    };
+    const detachOrbit = attachOrbitControls(renderer.domElement, orbitRef.current, () => actionsRef.current.toggleRecall());
+    
+    return () => {
+        isMountedRef.current = false;
+        resizeObserver.disconnect();
+        detachOrbit();
+        cancelAnimationFrame(frameIdRef.current);
+        cancelAnimationFrame(predictRef.current);
+        if (videoRef.current && videoRef.current.srcObject) (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
+        canvasRef.current = null;
+        renderStillRef.current = null;
+        if (renderer.domElement.parentNode === mount) mount.removeChild(renderer.domElement);
+        // Everything in the scene (batches, topper, photos, snow), the unrendered prototypes and the composer targets
+        disposeObject(scene);
+        [wreathProto, bearProto, hatProto].forEach(disposeObject);
+        disposeComposer(composer);
+        mainGroupRef.current = null; atmosphereRef.current = null; particlesRef.current = [];
+        renderer.dispose();
+        renderer.forceContextLoss();
+    };
+  }, []); // Only run once on mount!
+
+  // Blends from whatever is on screen, so switching mid-transition stays smooth
+  useEffect(() => {
+    if (!theme) saveThemeId(themeId);
+    themeTransitionRef.current?.start(resolveTheme(themeId, config.palette));
+  }, [themeId]);
+
+  // The panel can still switch a fixed theme for the session; a new prop value switches it back
+  useEffect(() => { if (theme) setThemeId(theme); }, [theme]);
+
+  const shouldShowCamera = appMode !== AppMode.LOADING && 
+                           (captureState === 'COUNTDOWN' || captureState === 'FLASH' || captureState === 'DEVELOPING' || (captureState === 'IDLE' && (currentGesture === 'L_SHAPE' || showProfiles)));
+
+  return (
+    <div ref={containerRef} style={{ position: 'relative', width: '100%', height: '100%', overflow: 'hidden', backgroundColor: '#000' }}>
+      
+      {/* 1. THREE.JS CANVAS LAYER */}
+      <div ref={mountRef} style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', zIndex: 1 }} />
+
+      {/* 2. FLASH OVERLAY (Highest Z-Index) */}
+      <div 
+        className={`absolute inset-0 bg-white pointer-events-none transition-opacity duration-150 ${flash ? 'opacity-100' : 'opacity-0'}`} 
+        style={{ zIndex: 3000 }} 
+      />
+
+      {/* 3. UI LAYER - TOP HEADER */}
+      <div style={{ position: 'absolute', top: '2.5rem', left: 0, right: 0, zIndex: 1000, pointerEvents: 'none', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+          <h1 style={{ 
+            fontFamily: '"Playfair Display", serif', 
+            fontStyle: 'italic',
+            fontWeight: 700,
+            color: 'rgb(var(--accent-glow))', // Theme accent
+            textShadow: '0 0 15px rgb(var(--accent-glow) / 0.6), 0 4px 6px rgba(0,0,0,0.8)',
+            letterSpacing: '0.05em'
+          }} className="text-4xl md:text-7xl text-center uppercase">
+            Merry Christmas
+          </h1>
+          <div className="h-[2px] w-48 bg-gradient-to-r from-transparent via-accent-500 to-transparent mt-4 opacity-75" />
+      </div>
+
+      {showUi && (<>
+        {visionStatusText && (
+            <div className="absolute top-40 left-1/2 -translate-x-1/2 z-[1000] animate-pulse pointer-events-none">
+                <div className="px-6 py-2 rounded-full bg-black/60 border border-accent-500/30 backdrop-blur-sm text-accent-400/80 text-xs tracking-[0.2em] font-bold shadow-[0_0_15px_rgb(var(--accent-glow)/0.1)]">
+                    {visionStatusText}
+                </div>
+            </div>
+        )}
+
+        {errorMsg && (
+            <div className="absolute top-24 left-1/2 -translate-x-1/2 z-[1100] max-w-[90vw]">
+                <div className="px-6 py-4 rounded bg-red-950/90 border border-red-500/50 backdrop-blur text-red-100 text-sm font-mono shadow-[0_0_20px_rgba(239,68,68,0.3)] flex flex-col items-center">
+                    <span className="font-bold border-b border-red-500/50 mb-2 pb-1 w-full text-center tracking-widest">SYSTEM ALERT</span>
+                    <span>{errorMsg}</span>
+                </div>
+            </div>
+        )}
+
+        {/* TOP LEFT STATUS - quality, connected remotes, GPU readout (I) */}
+        {appMode !== AppMode.LOADING && (
+            <div className="absolute top-6 left-6 z-[1000] pointer-events-none flex flex-col items-start gap-2">
+                <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-black/40 border border-white/10 backdrop-blur-md" title="Rendering quality adapts to the measured frame rate">
+                    <span className={`w-2 h-2 rounded-full ${['bg-green-400', 'bg-lime-400', 'bg-accent-400', 'bg-orange-500'][qualityTier]}`} />
+                    <span className="text-[10px] text-white/60 font-mono tracking-widest">QUALITY {QUALITY_TIERS[qualityTier].name}</span>
+                </div>
+                {(remoteControllers.length > 0 || remoteStatus === 'CLOSED') && (
+                    <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-black/40 border border-white/10 backdrop-blur-md" title="Phones connected through controller.html">
+                        <span className={`w-2 h-2 rounded-full ${remoteStatus === 'CLOSED' ? 'bg-red-500' : 'bg-green-400'}`} />
+                        <span className="text-[10px] text-white/60 font-mono tracking-widest uppercase max-w-[16rem] truncate">
+                            {remoteStatus === 'CLOSED' ? 'REMOTE RELAY OFFLINE' : `📱 ${remoteControllers.map(c => c.name).join(', ')}`}
+                        </span>
+                    </div>
+                )}
+                {guests && !guestOnline && (
+                    <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-black/40 border border-white/10 backdrop-blur-md" title="The guest photo server did not answer">
+                        <span className="w-2 h-2 rounded-full bg-red-500" />
+                        <span className="text-[10px] text-white/60 font-mono tracking-widest">GUEST INBOX OFFLINE</span>
+                    </div>
+                )}
+                {gpuInfo && (
+                    <div className="flex flex-col px-3 py-2 rounded bg-black/60 border border-white/10 backdrop-blur-md text-[10px] text-white/60 font-mono tracking-widest">
+                        <span>GEOMETRIES {gpuInfo.geometries}</span>
+                        <span>TEXTURES {gpuInfo.textures}</span>
+                        <span>PROGRAMS {gpuInfo.programs}</span>
+                        <span>DRAW CALLS {gpuInfo.calls}</span>
+                        <span>TRIANGLES {gpuInfo.triangles.toLocaleString()}</span>
+                        <span>PHOTOS {gpuInfo.fullPhotos} FULL / {gpuInfo.photos}</span>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* TOP RIGHT TOOLS */}
+        {appMode !== AppMode.LOADING && (
+            <div className="absolute top-6 right-6 z-[1000] flex gap-3" style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }}>
+                <button onClick={() => setShowProfiles(true)} className="px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                   Gestures
+                </button>
+                <button onClick={() => setShowTextSettings(true)} className="px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                   Text
+                </button>
+                <button onClick={() => setShowLogo(true)} className="px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                   Logo
+                </button>
+                <button onClick={() => setShowThemes(true)} className="px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                   Theme
+                </button>
+                <div className="flex rounded-full bg-black/40 border border-accent-500/60 backdrop-blur-md overflow-hidden">
+                    <button onClick={toggleRecording} title="Record a clip (V, hold two fists)" className={`pl-4 pr-3 py-2 text-[10px] font-bold uppercase hover:bg-accent-500/10 transition-colors ${recordingInfo ? 'text-red-400' : 'text-accent-400'}`}>
+                       {recordingInfo ? '■ Stop' : '● Record'}
+                    </button>
+                    <button onClick={toggleRecordAudio} disabled={!!recordingInfo} title={recordAudio ? 'Clips include music and sounds' : 'Clips are silent'} className="pl-2 pr-3 py-2 border-l border-accent-500/40 text-[12px] hover:bg-accent-500/10 disabled:opacity-40 transition-colors">
+                       {recordAudio ? '🎵' : '🔕'}
+                    </button>
+                </div>
+                <button onClick={openShareCard} disabled={shareBusy} title="Printable card with the tree and the latest photo (C)" className="px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 disabled:opacity-40 transition-colors">
+                   {shareBusy ? 'Rendering…' : 'Share'}
+                </button>
+                <button onClick={() => setShowMusic(true)} className="px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                   Music{audioState.source !== 'OFF' && ' ♪'}
+                </button>
+                <button onClick={toggleMute} title={audioState.muted ? 'Unmute (M)' : 'Mute (M)'} className="w-8 rounded-full bg-black/40 border border-accent-500/60 text-[12px] backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                   {audioState.muted ? '🔇' : '🔊'}
+                </button>
+                {guests && (
+                    <button onClick={() => setShowGuests(true)} title="QR code for guests and photos waiting for approval" className="relative px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                       Guests
+                       {guestQueue.length > 0 && (
+                           <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-[10px] font-mono tracking-normal">{guestQueue.length}</span>
+                       )}
+                    </button>
+                )}
+                <button onClick={retakePhoto} title="Replace the last photo (Shift+Space)" className="px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                   Retake
+                </button>
+                <button onClick={openGallery} className="px-4 py-2 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md hover:bg-accent-500/10 transition-colors">
+                   Gallery
+                </button>
+            </div>
+        )}
+        {showLogo && <LogoPanel current={logoInfo} onApply={applyLogo} onRemove={removeLogo} onError={setErrorMsg} onClose={() => setShowLogo(false)} />}
+        {showThemes && <ThemePanel themes={THEMES.map(t => resolveTheme(t.id, config.palette))} activeId={themeId} onSelect={setThemeId} onClose={() => setShowThemes(false)} />}
+        {showTextSettings && <TextSettingsPanel settings={textSettings} onApply={s => { applyTextSettings(s); setShowTextSettings(false); }} onClose={() => setShowTextSettings(false)} />}
+        {shareCard && <SharePanel card={shareCard} onClose={closeShareCard} />}
+        {clip && <RecordingPanel recording={clip} onClose={closeClip} />}
+        {showMusic && (
+            <MusicPanel
+               audio={audioState} reactivity={reactivity}
+               onSource={selectAudioSource} onAddFiles={addSongs} onReactivity={setReactivity} onMute={m => audioRef.current?.setMuted(m)}
+               onPlayTrack={i => audioRef.current?.playPlaylist(i).catch(e => setErrorMsg(`Music not played: ${getErrorMessage(e)}`))}
+               onClose={() => setShowMusic(false)}
+            />
+        )}
+        {showGuests && guests && <GuestPanel uploadPageUrl={guests.uploadPageUrl} queue={guestQueue} online={guestOnline} onModerate={moderateGuest} onClose={() => setShowGuests(false)} />}
+        {galleryPhotos && <GalleryPanel photos={galleryPhotos} onClose={() => setGalleryPhotos(null)} onError={setErrorMsg} />}
+        {showProfiles && (
+            <GestureProfilesPanel
+               profiles={gestureProfiles} activeName={activeProfile} trackingReady={!!landmarkerRef.current}
+               onSelect={selectProfile} onDelete={deleteProfile} onSave={saveProfile}
+               onCalibrating={sink => { calibrationSinkRef.current = sink; }}
+               onClose={() => setShowProfiles(false)}
+            />
+        )}
+      </>)}
+
+      {/* LOADING SCREEN */}
+      {appMode === AppMode.LOADING && (
+        <div style={{ position: 'absolute', inset: 0, zIndex: 4000, backgroundColor: '#000', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center' }}>
+           <h1 className="text-3xl md:text-5xl text-accent-400 tracking-[0.4em] mb-8 text-center drop-shadow-[0_0_15px_rgb(var(--accent-glow)/0.3)] uppercase animate-pulse font-serif">
+             FROSTING THE NOEL...
+           </h1>
+           <div className="relative w-80 h-4 bg-gray-900 rounded-full overflow-hidden border border-gray-700 shadow-[0_0_15px_rgb(var(--accent-glow)/0.2)] mb-4">
+              <div className="absolute top-0 left-0 h-full bg-gradient-to-r from-accent-700 to-accent-400 transition-all duration-300 ease-out" style={{ width: `${loadingProgress}%`}} />
+           </div>
+           <div className="flex flex-col items-center gap-2 text-accent-500/80 font-mono text-sm tracking-widest">
+             <span className="uppercase">{loadingStage}</span>
+             <span className="text-white font-bold">{Math.round(loadingProgress)}%</span>
+           </div>
+        </div>
+      )}
+
+      {/* COUNTDOWN OVERLAY */}
+      {captureState === 'COUNTDOWN' && countdown !== null && countdown > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center z-[2500] pointer-events-none">
+              <div className="text-9xl text-white font-bold animate-ping drop-shadow-[0_4px_8px_rgba(0,0,0,0.8)]" style={{ textShadow: '0 0 30px gold' }}>{countdown}</div>
+          </div>
+      )}
+
+      {showUi && (<>
+        {/* PHOTO BROWSER - position of the zoomed photo in capture order */}
+        {browse && browse.index >= 0 && (
+            <div className="absolute top-1/2 left-0 right-0 -translate-y-1/2 z-[1500] flex justify-between px-6 pointer-events-none">
+                <button onClick={() => stepPhoto(-1)} title="Previous photo (←, swipe right)" style={{ pointerEvents: 'auto' }}
+                   className="w-10 h-10 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-lg backdrop-blur-md hover:bg-accent-500/10 active:scale-95">‹</button>
+                <div className="self-center mt-[22rem] flex items-center gap-3">
+                    <span className="px-3 py-1 rounded-full bg-black/50 border border-accent-500/40 text-[10px] text-accent-400 font-mono tracking-widest">{browse.index + 1} / {browse.total}</span>
+                    <button onClick={deleteZoomedPhoto} title="Delete photo (Del, hold a fist)" style={{ pointerEvents: 'auto' }}
+                       className="px-3 py-1 rounded-full bg-black/50 border border-red-500/60 text-red-400/80 text-[10px] font-bold tracking-widest uppercase hover:bg-red-500/10 active:scale-95">Delete</button>
+                </div>
+                <button onClick={() => stepPhoto(1)} title="Next photo (→, swipe left)" style={{ pointerEvents: 'auto' }}
+                   className="w-10 h-10 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-lg backdrop-blur-md hover:bg-accent-500/10 active:scale-95">›</button>
+            </div>
+        )}
+
+        {/* UNDO DELETE */}
+        {undoVisible && (
+            <div className="absolute top-24 left-1/2 -translate-x-1/2 z-[1500] flex items-center gap-4 px-4 py-2 rounded-full bg-black/70 border border-accent-500/40 backdrop-blur-md" style={{ pointerEvents: 'auto' }}>
+                <span className="text-[10px] text-white/80 font-mono tracking-widest">PHOTO DELETED</span>
+                <button onClick={undoDelete} title="Undo (U)" className="text-[10px] text-accent-400 font-bold tracking-widest uppercase hover:text-accent-400/70">Undo</button>
+            </div>
+        )}
+
+        {/* RECORD HOLD - two fists held start or stop recording */}
+        {recordHold > 0.15 && recordHold < 1 && !(recordingInfo?.endCard) && (
+            <div className="absolute bottom-40 left-1/2 -translate-x-1/2 z-[1500] flex flex-col items-center gap-2 pointer-events-none">
+                <span className="text-[10px] text-white/80 font-bold tracking-widest uppercase">{recordingInfo ? 'Keep holding to stop' : 'Keep holding to record'}</span>
+                <div className="w-40 h-1 rounded-full bg-gray-800/60 overflow-hidden">
+                    <div className="h-full bg-red-500" style={{ width: `${recordHold * 100}%` }} />
+                </div>
+            </div>
+        )}
+      </>)}
+
+      {/* RECORDING INDICATOR - shown even without the built-in UI */}
+      {recordingInfo && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-[1600] flex items-center gap-3 px-4 py-1 rounded-full bg-black/70 border border-red-500/60 backdrop-blur-md" style={{ pointerEvents: 'auto' }}>
+              <span className={`w-2.5 h-2.5 rounded-full bg-red-500 ${recordingInfo.endCard ? '' : 'animate-pulse'}`} />
+              <span className="text-[10px] text-white/80 font-mono tracking-widest">
+                  {recordingInfo.endCard ? 'FINISHING...' : `REC ${formatClock(recordingInfo.elapsedMs)} / ${formatClock(MAX_RECORDING_MS)}`}
+              </span>
+              {!recordingInfo.endCard && <button onClick={toggleRecording} title="Stop (V)" className="text-[10px] text-red-400 font-bold tracking-widest uppercase hover:text-red-300">Stop</button>}
+          </div>
+      )}
+
+      {/* CAMERA PREVIEW */}
+      <div style={{
+          position: 'absolute', inset: 0, 
+          zIndex: 1050, 
+          opacity: shouldShowCamera ? 1 : 0,
+          display: 'flex', alignItems: 'center', justifyContent: 'center', 
+          pointerEvents: 'none',
+          transition: 'opacity 0.2s ease'
+      }}>
+            <div style={{ 
+               width: '18rem', 
+               aspectRatio: '1/1', 
+               position: 'relative',
+               overflow: 'hidden',
+               boxShadow: '0 0 50px rgba(0,0,0,0.8)',
+               border: '1px solid rgba(255,255,255,0.3)'
+            }}>
+                <video ref={videoRef} playsInline muted autoPlay style={{ width: '100%', height: '100%', objectFit: 'cover', transform: 'scaleX(-1)' }} />
+                <div className="absolute inset-4 border border-white/20"></div>
+                <div className="absolute bottom-4 left-0 right-0 text-center text-white/90 font-cinzel text-xs font-bold tracking-widest uppercase drop-shadow-md">
+                   {camMessage}
+                </div>
+                <div className="absolute bottom-0 left-0 right-0 h-1 bg-gray-800/50">
+                   <div className="h-full bg-accent-400 transition-all duration-75 ease-linear" style={{ width: `${holdProgress * 100}%` }} />
+                </div>
+            </div>
+      </div>
+
+      {/* DEVELOPING POLAROID */}
+      {captureState === 'DEVELOPING' && (
+         <div style={{ position: 'absolute', inset: 0, zIndex: 1100, display: 'flex', alignItems: 'center', justifyContent: 'center', pointerEvents: 'none' }}>
+           <div style={{ 
+              width: '18rem',
+              aspectRatio: '0.81', 
+              backgroundColor: '#fdfbf7', 
+              display: 'flex', flexDirection: 'column', alignItems: 'center',
+              padding: '1.2rem 1.2rem 3.5rem 1.2rem',
+              boxShadow: '0 20px 50px rgba(0,0,0,0.8)',
+              transform: 'scale(1)',
+              animation: 'popIn 0.3s ease-out'
+           }}>
+               <div style={{ width: '100%', aspectRatio: '1/1', backgroundColor: '#050505', overflow: 'hidden', position: 'relative' }}>
+                  {snapshotImage && (
+                    <img 
+                      src={snapshotImage} 
+                      alt="Captured" 
+                      style={{ 
+                        width: '100%', height: '100%', objectFit: 'cover',
+                        animation: 'fadeInPhoto 2s ease-in-out forwards'
+                      }} 
+                    />
+                  )}
+               </div>
+               
+               <div style={{ 
+                  marginTop: 'auto', paddingTop: '0.5rem', textAlign: 'center', color: '#1f2937',
+                  opacity: 0,
+                  animation: 'fadeInText 1s ease-in-out 2s forwards' 
+               }}>
+                  <div style={{ fontFamily: textSettings.font, fontWeight: getFontWeight(textSettings.font) }} className="text-2xl tracking-widest uppercase mb-1 max-w-[15rem] truncate">{textSettings.caption}</div>
+                  <div className="font-cinzel text-[10px] tracking-widest uppercase">
+                    {new Date().toLocaleDateString()} • {new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                  </div>
+               </div>
+           </div>
+         </div>
+      )}
+      
+      {showUi && (<>
+        {/* BOTTOM MENU - ICONS - Centered */}
+        <div style={{ position: 'absolute', bottom: '4rem', left: 0, right: 0, zIndex: 1000, pointerEvents: 'none', display: 'flex', justifyContent: 'center', gap: '2.5rem' }}>
+            {/* SCATTER */}
+            <div 
+               onClick={() => changeMode(AppMode.SCATTER)}
+               title="Scatter (1 / S)"
+               style={{ pointerEvents: 'auto', cursor: 'pointer' }}
+               className={`flex flex-col items-center justify-center text-center transition-all duration-300 active:scale-95 ${appMode === AppMode.SCATTER ? 'scale-110 opacity-100' : 'opacity-50'}`}>
+                <div className="w-14 h-14 rounded-full bg-black/40 border border-accent-500/80 flex items-center justify-center text-2xl backdrop-blur-md shadow-[0_0_25px_rgb(var(--accent-glow)/0.3)]">
+                  ✋
+                </div>
+                <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.1em' }} className="mt-2 text-[10px] font-bold text-accent-400 uppercase drop-shadow-sm">Scatter</span>
+            </div>
+
+            {/* GATHER */}
+            <div 
+               onClick={() => changeMode(AppMode.TREE)}
+               title="Gather (2 / G)"
+               style={{ pointerEvents: 'auto', cursor: 'pointer' }}
+               className={`flex flex-col items-center justify-center text-center transition-all duration-300 active:scale-95 ${appMode === AppMode.TREE ? 'scale-110 opacity-100' : 'opacity-50'}`}>
+                <div className="w-14 h-14 rounded-full bg-black/40 border border-accent-500/80 flex items-center justify-center text-2xl backdrop-blur-md shadow-[0_0_25px_rgb(var(--accent-glow)/0.3)]">
+                  ✊
+                </div>
+                <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.1em' }} className="mt-2 text-[10px] font-bold text-accent-400 uppercase drop-shadow-sm">Gather</span>
+            </div>
+
+            {/* CAPTURE - CLICKABLE */}
+            <div 
+               onClick={triggerCountdown}
+               title="Snap (Space)"
+               style={{ pointerEvents: 'auto', cursor: 'pointer' }}
+               className={`flex flex-col items-center justify-center text-center transition-all duration-300 active:scale-95 ${captureState === 'COUNTDOWN' ? 'scale-125 opacity-100' : 'opacity-80 hover:opacity-100'}`}
+            >
+                <div className="w-16 h-16 rounded-full bg-black/40 border-2 border-white/80 flex items-center justify-center text-3xl backdrop-blur-md shadow-[0_0_25px_rgba(255,255,255,0.4)] hover:bg-white/10 transition-colors">
+                  👆
+                </div>
+                <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="mt-2 text-xs font-bold text-white uppercase drop-shadow-sm">Snap</span>
+            </div>
+
+            {/* TEXT FORMATION (THUMBS UP) */}
+            <div 
+               onClick={() => changeMode(AppMode.TEXT)}
+               title="Text (3 / T)"
+               style={{ pointerEvents: 'auto', cursor: 'pointer' }}
+               className={`flex flex-col items-center justify-center text-center transition-all duration-300 active:scale-95 ${appMode === AppMode.TEXT ? 'scale-110 opacity-100' : 'opacity-50'}`}>
+                <div className="w-14 h-14 rounded-full bg-black/40 border border-accent-500/80 flex items-center justify-center text-2xl backdrop-blur-md shadow-[0_0_25px_rgb(var(--accent-glow)/0.3)]">
+                  👍
+                </div>
+                <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.1em' }} className="mt-2 text-[10px] font-bold text-accent-400 uppercase drop-shadow-sm max-w-[5rem] truncate">{textSettings.text.split('\n')[0]}</span>
+            </div>
+
+            {/* RECALL */}
+            <div 
+               onClick={toggleRecall}
+               title="Recall (R, double tap)"
+               style={{ pointerEvents: 'auto', cursor: 'pointer' }}
+               className={`flex flex-col items-center justify-center text-center transition-all duration-300 active:scale-95 ${currentGesture === 'PINCH' ? 'scale-110 opacity-100' : 'opacity-50'}`}>
+                <div className="w-14 h-14 rounded-full bg-black/40 border border-accent-500/80 flex items-center justify-center text-2xl backdrop-blur-md shadow-[0_0_25px_rgb(var(--accent-glow)/0.3)]">
+                  👌
+                </div>
+                <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.1em' }} className="mt-2 text-[10px] font-bold text-accent-400 uppercase drop-shadow-sm">Recall</span>
+            </div>
+        </div>
+
+        {/* FORMATION STRIP - registry formations without a dedicated menu entry */}
+        {appMode !== AppMode.LOADING && (
+            <div style={{ position: 'absolute', bottom: '1rem', left: 0, right: 0, zIndex: 1000, pointerEvents: 'none', display: 'flex', justifyContent: 'center', gap: '0.75rem' }}>
+                {listFormations(ownFormations()).filter(f => f.menu).map(f => (
+                    <button key={f.id} onClick={() => changeMode(f.id)} title={f.key ? `${f.label} (${f.key})` : f.label} style={{ pointerEvents: 'auto', fontFamily: '"Cinzel", serif', letterSpacing: '0.1em' }}
+                       className={`flex items-center gap-1 px-3 py-1 rounded-full bg-black/40 border border-accent-500/60 text-accent-400 text-[10px] font-bold uppercase backdrop-blur-md transition-all duration-300 active:scale-95 ${appMode === f.id ? 'opacity-100 bg-accent-500/20' : 'opacity-50 hover:opacity-80'}`}>
+                        <span className="text-sm">{f.icon}</span>{f.label}
+                    </button>
+                ))}
+            </div>
+        )}
+      </>)}
+
+      <style>{`
+        @keyframes popIn {
+          0% { transform: scale(0.9); opacity: 0; }
+          50% { transform: scale(1.05); opacity: 1; }
+          100% { transform: scale(1); opacity: 1; }
+        }
+        @keyframes fadeInPhoto {
+          0% { opacity: 0; filter: grayscale(1) blur(5px); }
+          50% { opacity: 0.6; filter: grayscale(0.5) blur(2px); }
+          100% { opacity: 1; filter: grayscale(0) blur(0); }
+        }
+        @keyframes fadeInText {
+          from { opacity: 0; transform: translateY(5px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default NoelTree;
\ No newline at end of file
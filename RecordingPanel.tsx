@@ -0,0 +1,31 @@
+import React from 'react';
+import { SceneRecording } from './recorder';
+
+interface RecordingPanelProps {
+  recording: SceneRecording;
+  onClose: () => void; // Discards the clip
+}
+
+const formatSize = (bytes: number) => bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ recording, onClose }) => (
+  <div className="absolute inset-0 z-[2000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" style={{ pointerEvents: 'auto' }}>
+    <div className="w-full max-w-2xl flex flex-col gap-4 p-6 rounded bg-black/80 border border-accent-500/40 shadow-[0_0_30px_rgb(var(--accent-glow)/0.15)]">
+      <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase border-b border-accent-500/40 pb-2">
+        Your Clip
+      </span>
+      <video src={recording.url} controls autoPlay loop playsInline className="w-full max-h-[60vh] rounded bg-black" />
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-[10px] text-white/60 font-mono tracking-widest">
+          {Math.round(recording.durationMs / 1000)}s • {formatSize(recording.blob.size)} • {recording.fileName}
+        </span>
+        <div className="flex gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border rounded border-white/40 text-white/80 hover:bg-white/10">Discard</button>
+          <a href={recording.url} download={recording.fileName} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border border-accent-500/80 text-accent-400 rounded hover:bg-accent-500/10">Download</a>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default RecordingPanel;
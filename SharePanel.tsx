@@ -0,0 +1,30 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { ShareCard } from './shareCard';
+import { downloadBlob } from './photoExport';
+
+interface SharePanelProps {
+  card: ShareCard;
+  onClose: () => void;
+}
+
+const SharePanel: React.FC<SharePanelProps> = ({ card, onClose }) => (
+  <div className="absolute inset-0 z-[2000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" style={{ pointerEvents: 'auto' }} onClick={onClose}>
+    <div className="max-h-full flex flex-col gap-4 p-6 rounded bg-black/80 border border-accent-500/40 shadow-[0_0_30px_rgb(var(--accent-glow)/0.15)]" onClick={e => e.stopPropagation()}>
+      <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase border-b border-accent-500/40 pb-2">
+        Share Card
+      </span>
+      <img src={card.url} alt="Share card" className="max-h-[65vh] w-auto self-center rounded shadow-[0_10px_40px_rgba(0,0,0,0.8)]" />
+      <div className="flex justify-end gap-3">
+        <button onClick={onClose} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border rounded border-white/40 text-white/80 hover:bg-white/10">Close</button>
+        <button onClick={() => window.print()} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border border-accent-500/80 text-accent-400 rounded hover:bg-accent-500/10">Print</button>
+        <button onClick={() => downloadBlob(card.blob, card.fileName)} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border border-accent-500/80 text-accent-400 rounded hover:bg-accent-500/10">Download PNG</button>
+      </div>
+    </div>
+    {/* Only this copy is printed (see the print rules in index.css). It lives directly in <body>:
+        inside the blurred panel it would be clipped to the tree's container */}
+    {createPortal(<img src={card.url} alt="" className="share-card-print" />, document.body)}
+  </div>
+);
+
+export default SharePanel;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { TextSettings, TEXT_FONTS, getFontWeight } from './textFormation';
+
+interface TextSettingsPanelProps {
+  settings: TextSettings;
+  onApply: (settings: TextSettings) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full bg-black/60 border border-accent-500/40 rounded px-3 py-2 text-white text-sm focus:outline-none focus:border-accent-400";
+const labelClass = "text-[10px] text-accent-500/80 font-bold tracking-widest uppercase";
+
+const TextSettingsPanel: React.FC<TextSettingsPanelProps> = ({ settings, onApply, onClose }) => {
+  const [draft, setDraft] = useState<TextSettings>(settings);
+
+  return (
+    <div className="absolute inset-0 z-[2000] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" style={{ pointerEvents: 'auto' }}>
+      <div className="w-full max-w-md flex flex-col gap-4 p-6 rounded bg-black/80 border border-accent-500/40 shadow-[0_0_30px_rgb(var(--accent-glow)/0.15)]">
+        <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase border-b border-accent-500/40 pb-2">
+          Text Formation
+        </span>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Formation text (one line per row)</span>
+          <textarea rows={3} value={draft.text} onChange={e => setDraft({ ...draft, text: e.target.value })} className={fieldClass} style={{ fontFamily: draft.font, fontWeight: getFontWeight(draft.font) }} />
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Polaroid caption</span>
+          <input value={draft.caption} onChange={e => setDraft({ ...draft, caption: e.target.value })} className={fieldClass} style={{ fontFamily: draft.font, fontWeight: getFontWeight(draft.font) }} />
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Font</span>
+          <select value={draft.font} onChange={e => setDraft({ ...draft, font: e.target.value })} className={fieldClass}>
+            {TEXT_FONTS.map(f => <option key={f.label} value={f.family}>{f.label}</option>)}
+          </select>
+        </label>
+
+        <div className="flex justify-end gap-3 mt-2">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border border-white/40 text-white/80 rounded hover:bg-white/10">
+            Cancel
+          </button>
+          <button
+            disabled={!draft.text.trim()}
+            onClick={() => onApply({ ...draft, caption: draft.caption.trim() || draft.text.split('\n')[0] })}
+            className="px-4 py-2 text-xs font-bold tracking-widest uppercase border border-accent-500/80 text-accent-400 rounded hover:bg-accent-500/10 disabled:opacity-30"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextSettingsPanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Theme, ThemeId } from './themes';
+
+interface ThemePanelProps {
+  themes: Theme[];
+  activeId: ThemeId;
+  onSelect: (id: ThemeId) => void; // Applied live, the panel stays open for comparison
+  onClose: () => void;
+}
+
+const hex = (c: number) => `#${c.toString(16).padStart(6, '0')}`;
+
+const ThemePanel: React.FC<ThemePanelProps> = ({ themes, activeId, onSelect, onClose }) => (
+  <div className="absolute inset-0 z-[2000] flex items-end justify-center p-6 pb-40" style={{ pointerEvents: 'auto' }} onClick={onClose}>
+    <div className="w-full max-w-md flex flex-col gap-4 p-6 rounded bg-black/80 border border-accent-500/40 shadow-[0_0_30px_rgb(var(--accent-glow)/0.15)] backdrop-blur-sm" onClick={e => e.stopPropagation()}>
+      <span style={{ fontFamily: '"Cinzel", serif', letterSpacing: '0.2em' }} className="text-accent-400 text-lg font-bold uppercase border-b border-accent-500/40 pb-2">
+        Theme
+      </span>
+
+      <div className="grid grid-cols-2 gap-3">
+        {themes.map(t => (
+          <button key={t.id} onClick={() => onSelect(t.id)}
+            className={`flex flex-col gap-2 p-3 rounded border text-left transition-colors ${t.id === activeId ? 'border-accent-400 bg-accent-500/10' : 'border-white/20 hover:border-white/40'}`}>
+            <div className="flex gap-1">
+              {[t.palette.gold, t.palette.red, t.palette.green, t.palette.lights[0], t.ui.glow].map((c, i) => (
+                <span key={i} className="w-4 h-4 rounded-full border border-white/20" style={{ backgroundColor: hex(c) }} />
+              ))}
+            </div>
+            <span className="text-xs text-white tracking-widest uppercase">{t.name}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={onClose} className="px-4 py-2 text-xs font-bold tracking-widest uppercase border rounded border-white/40 text-white/80 hover:bg-white/10">Close</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ThemePanel;
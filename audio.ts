@@ -0,0 +1,258 @@
+// --- AUDIO ---
+// Music (a playlist or the microphone) runs through an analyser whose frequency bands drive the
+// lights, bloom and spin. Capture sound effects are synthesized, so there are no sound files to
+// ship. Browsers only start audio after a click or key press; until then everything stays silent.
+
+export type AudioSource = 'OFF' | 'PLAYLIST' | 'MIC';
+export type SoundEffect = 'tick' | 'shutter' | 'whoosh';
+
+export interface AudioBands { bass: number; mid: number; treble: number; level: number } // 0..1, smoothed
+
+export interface AudioTrack { name: string; url: string }
+
+export interface AudioState {
+  source: AudioSource;
+  tracks: AudioTrack[];
+  track: number;   // Index into tracks, -1 when nothing is playing
+  muted: boolean;  // Silences output only; the lights keep following the music
+}
+
+export interface AudioEngine {
+  getBands: (dt: number) => AudioBands; // Once per frame
+  setTracks: (tracks: AudioTrack[]) => void;
+  playPlaylist: (track?: number) => Promise<void>;
+  nextTrack: () => Promise<void>;
+  useMicrophone: () => Promise<void>;
+  stop: () => void;
+  setMuted: (muted: boolean) => void;
+  playEffect: (effect: SoundEffect) => void;
+  getRecordingStream: () => MediaStream | null; // Music or microphone plus effects, even while muted
+  dispose: () => void;
+}
+
+const MUTED_KEY = 'noel-tree:muted';
+const FFT_SIZE = 1024;
+const BANDS_HZ = { bass: [30, 250], mid: [250, 2000], treble: [2000, 8000] } as const;
+const ATTACK = 0.5, RELEASE = 0.08; // Per 60 Hz frame: jump up on a beat, fall back slowly
+const EFFECT_VOLUME = 0.35;
+
+const ZERO_BANDS: AudioBands = { bass: 0, mid: 0, treble: 0, level: 0 };
+
+const loadMuted = () => {
+  try { return localStorage.getItem(MUTED_KEY) === '1'; } catch { return false; }
+};
+
+export const trackName = (url: string) => decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() || url).replace(/\.[a-z0-9]+$/i, '');
+
+export const createAudioEngine = (onChange: (state: AudioState) => void): AudioEngine => {
+  const state: AudioState = { source: 'OFF', tracks: [], track: -1, muted: loadMuted() };
+  const emit = () => onChange({ ...state, tracks: [...state.tracks] });
+
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let analyser: AnalyserNode | null = null;
+  let effects: GainNode | null = null;
+  let recording: MediaStreamAudioDestinationNode | null = null;
+  let bins: Uint8Array<ArrayBuffer> | null = null;
+  let noise: AudioBuffer | null = null;
+  let player: HTMLAudioElement | null = null;
+  let playerNode: MediaElementAudioSourceNode | null = null;
+  let mic: { stream: MediaStream; node: MediaStreamAudioSourceNode } | null = null;
+  const bands: AudioBands = { ...ZERO_BANDS };
+
+  // Created on first use; resumed on the next user interaction if the browser suspended it
+  const context = () => {
+    if (!ctx) {
+      ctx = new AudioContext();
+      master = ctx.createGain();
+      master.gain.value = state.muted ? 0 : 1;
+      master.connect(ctx.destination);
+      effects = ctx.createGain();
+      effects.connect(master);
+      analyser = ctx.createAnalyser();
+      analyser.fftSize = FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.6;
+      bins = new Uint8Array(analyser.frequencyBinCount);
+    }
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+    return ctx;
+  };
+  const unlock = () => { if (ctx?.state === 'suspended') ctx.resume().catch(() => {}); };
+  window.addEventListener('pointerdown', unlock);
+  window.addEventListener('keydown', unlock);
+
+  const stopSources = () => {
+    if (player) { player.pause(); player.removeAttribute('src'); player.load(); }
+    playerNode?.disconnect();
+    if (mic) { mic.node.disconnect(); mic.stream.getTracks().forEach(t => t.stop()); mic = null; }
+  };
+
+  const getBands = (dt: number): AudioBands => {
+    if (!analyser || !bins || !ctx || state.source === 'OFF') {
+      // Let the last values fade out instead of snapping to zero
+      const k = 1 - Math.pow(1 - RELEASE, dt * 60);
+      bands.bass -= bands.bass * k; bands.mid -= bands.mid * k; bands.treble -= bands.treble * k; bands.level -= bands.level * k;
+      return bands;
+    }
+    analyser.getByteFrequencyData(bins);
+    const hzPerBin = ctx.sampleRate / FFT_SIZE;
+    const average = ([lo, hi]: readonly [number, number]) => {
+      const from = Math.max(1, Math.floor(lo / hzPerBin)), to = Math.min(bins!.length - 1, Math.ceil(hi / hzPerBin));
+      let sum = 0;
+      for (let i = from; i <= to; i++) sum += bins![i];
+      return sum / ((to - from + 1) * 255);
+    };
+    const ease = (current: number, target: number) => current + (target - current) * (1 - Math.pow(1 - (target > current ? ATTACK : RELEASE), dt * 60));
+    bands.bass = ease(bands.bass, average(BANDS_HZ.bass));
+    bands.mid = ease(bands.mid, average(BANDS_HZ.mid));
+    bands.treble = ease(bands.treble, Math.min(1, average(BANDS_HZ.treble) * 1.6)); // Highs are quieter in most music
+    bands.level = (bands.bass + bands.mid + bands.treble) / 3;
+    return bands;
+  };
+
+  const playPlaylist = async (track = Math.max(0, state.track)) => {
+    if (state.tracks.length === 0) throw new Error("The playlist is empty, add some songs first");
+    const audioCtx = context();
+    stopSources();
+    if (!player) {
+      player = new Audio();
+      player.crossOrigin = 'anonymous'; // Remote songs must allow CORS or the analyser only hears silence
+      player.addEventListener('ended', () => { nextTrack().catch(e => console.warn("Next song not played:", e)); });
+      playerNode = audioCtx.createMediaElementSource(player);
+    }
+    playerNode!.connect(analyser!);
+    analyser!.connect(master!);
+    state.track = ((track % state.tracks.length) + state.tracks.length) % state.tracks.length;
+    state.source = 'PLAYLIST';
+    player.src = state.tracks[state.track].url;
+    emit();
+    await player.play();
+  };
+
+  const nextTrack = () => playPlaylist(state.track + 1);
+
+  const useMicrophone = async () => {
+    const audioCtx = context();
+    // Raw input: the browser's voice processing flattens exactly the dynamics we react to
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false } });
+    stopSources();
+    // Analysed only, never played back, so the speakers cannot feed back into the microphone
+    try { analyser!.disconnect(master!); } catch { /* Was not playing to the speakers */ }
+    const node = audioCtx.createMediaStreamSource(stream);
+    node.connect(analyser!);
+    mic = { stream, node };
+    state.source = 'MIC';
+    state.track = -1;
+    emit();
+  };
+
+  const stop = () => {
+    stopSources();
+    state.source = 'OFF';
+    state.track = -1;
+    emit();
+  };
+
+  const setMuted = (muted: boolean) => {
+    state.muted = muted;
+    if (master && ctx) master.gain.setTargetAtTime(muted ? 0 : 1, ctx.currentTime, 0.05);
+    try { localStorage.setItem(MUTED_KEY, muted ? '1' : '0'); } catch { /* Remembering is optional */ }
+    emit();
+  };
+
+  // --- SOUND EFFECTS ---
+  const noiseBuffer = (audioCtx: AudioContext) => {
+    if (noise) return noise;
+    noise = audioCtx.createBuffer(1, audioCtx.sampleRate, audioCtx.sampleRate);
+    const data = noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    return noise;
+  };
+
+  const envelope = (audioCtx: AudioContext, at: number, attack: number, hold: number, release: number, peak = EFFECT_VOLUME) => {
+    const gain = audioCtx.createGain();
+    gain.gain.setValueAtTime(0, at);
+    gain.gain.linearRampToValueAtTime(peak, at + attack);
+    gain.gain.setValueAtTime(peak, at + attack + hold);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + attack + hold + release);
+    gain.connect(effects!);
+    return gain;
+  };
+
+  // Muting happens at the master gain, so a recording still hears the effects
+  const playEffect = (effect: SoundEffect) => {
+    let audioCtx: AudioContext;
+    try { audioCtx = context(); } catch (e) { console.warn("Sound effects unavailable:", e); return; }
+    if (audioCtx.state !== 'running') return; // No user interaction yet
+    const now = audioCtx.currentTime;
+
+    if (effect === 'tick') {
+      const osc = audioCtx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.value = 880;
+      osc.connect(envelope(audioCtx, now, 0.005, 0.06, 0.12));
+      osc.start(now); osc.stop(now + 0.2);
+    } else if (effect === 'shutter') {
+      // Two filtered noise clicks: the curtain opening and closing
+      [0, 0.07].forEach((offset, i) => {
+        const src = audioCtx.createBufferSource();
+        src.buffer = noiseBuffer(audioCtx);
+        const filter = audioCtx.createBiquadFilter();
+        filter.type = 'highpass';
+        filter.frequency.value = i === 0 ? 1800 : 1200;
+        src.connect(filter).connect(envelope(audioCtx, now + offset, 0.002, 0.02, 0.06, EFFECT_VOLUME * 1.4));
+        src.start(now + offset); src.stop(now + offset + 0.12);
+      });
+    } else {
+      // Noise through a band-pass sweeping up and back down as the photo flies past
+      const src = audioCtx.createBufferSource();
+      src.buffer = noiseBuffer(audioCtx);
+      const filter = audioCtx.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.Q.value = 1.5;
+      filter.frequency.setValueAtTime(300, now);
+      filter.frequency.exponentialRampToValueAtTime(2400, now + 0.35);
+      filter.frequency.exponentialRampToValueAtTime(250, now + 0.9);
+      src.connect(filter).connect(envelope(audioCtx, now, 0.3, 0.1, 0.5, EFFECT_VOLUME * 1.2));
+      src.start(now); src.stop(now + 1);
+    }
+  };
+
+  return {
+    getBands,
+    setTracks: tracks => {
+      const current = state.tracks[state.track];
+      state.tracks = tracks;
+      state.track = current ? tracks.findIndex(t => t.url === current.url) : -1;
+      // The playing song was removed
+      if (state.source === 'PLAYLIST' && state.track === -1) stop(); else emit();
+    },
+    playPlaylist,
+    nextTrack,
+    useMicrophone,
+    stop,
+    setMuted,
+    playEffect,
+    getRecordingStream: () => {
+      try {
+        const audioCtx = context();
+        if (!recording) {
+          recording = audioCtx.createMediaStreamDestination();
+          analyser!.connect(recording);
+          effects!.connect(recording);
+        }
+        return recording.stream;
+      } catch (e) {
+        console.warn("Recording without sound:", e);
+        return null;
+      }
+    },
+    dispose: () => {
+      stopSources();
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+      ctx?.close().catch(() => {});
+      ctx = null;
+    },
+  };
+};
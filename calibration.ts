@@ -0,0 +1,92 @@
+import { GestureConfig, DEFAULT_GESTURE_CONFIG, HandFeatures, ClassifiedGesture } from './gestureClassifier';
+
+// --- GESTURE CALIBRATION ---
+// Turns a few seconds of recorded hand geometry per gesture into personal thresholds,
+// stored as named profiles in localStorage.
+
+export interface GestureProfile {
+  name: string;
+  config: GestureConfig;
+  createdAt: number;
+}
+
+export type CalibrationSamples = Partial<Record<ClassifiedGesture, HandFeatures[]>>;
+
+export const DEFAULT_PROFILE_NAME = 'Standard';
+const PROFILES_KEY = 'noel-tree:gesture-profiles';
+const ACTIVE_KEY = 'noel-tree:gesture-profile';
+
+// Order the wizard walks through; the open palm and fist anchor the finger thresholds
+export const CALIBRATION_STEPS: { gesture: ClassifiedGesture; icon: string; prompt: string }[] = [
+  { gesture: 'OPEN_PALM', icon: '✋', prompt: 'Open your hand wide, fingers spread' },
+  { gesture: 'FIST', icon: '✊', prompt: 'Make a fist, thumb tucked in' },
+  { gesture: 'THUMBS_UP', icon: '👍', prompt: 'Thumbs up, other fingers curled' },
+  { gesture: 'L_SHAPE', icon: '👆', prompt: 'Make an L: thumb out, index up' },
+  { gesture: 'PINCH', icon: '👌', prompt: 'Touch thumb and index, other fingers open' },
+];
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+};
+
+const fingersMin = (f: HandFeatures) => Math.min(f.index, f.middle, f.ring, f.pinky);
+const fingersMax = (f: HandFeatures) => Math.max(f.index, f.middle, f.ring, f.pinky);
+
+// Places each threshold between what the user does when the feature should pass and when it should not.
+// Any threshold without usable samples keeps the base value.
+export const deriveGestureConfig = (samples: CalibrationSamples, base: GestureConfig = DEFAULT_GESTURE_CONFIG): GestureConfig => {
+  const config = { ...base };
+  const palm = samples.OPEN_PALM || [], fist = samples.FIST || [], up = samples.THUMBS_UP || [];
+  const l = samples.L_SHAPE || [], pinch = samples.PINCH || [];
+
+  if (palm.length && fist.length) {
+    const extended = percentile(palm.map(fingersMin), 0.2);
+    const curled = percentile(fist.map(fingersMax), 0.8);
+    if (extended > curled) config.fingerExtension = curled + (extended - curled) * 0.5;
+  }
+
+  const restingThumb = fist.length ? percentile(fist.map(f => f.thumb), 0.8) : null;
+  if (up.length && restingThumb !== null) {
+    const raised = percentile(up.map(f => f.thumb), 0.2);
+    if (raised > restingThumb) config.thumbExtension = restingThumb + (raised - restingThumb) * 0.5;
+  }
+  if (l.length && restingThumb !== null) {
+    const out = percentile(l.map(f => f.thumb), 0.2);
+    // Lower than the strict thumb check so the L stays easy to hold
+    if (out > restingThumb) config.thumbExtensionLoose = Math.min(restingThumb + (out - restingThumb) * 0.35, config.thumbExtension);
+  }
+
+  if (pinch.length) {
+    let threshold = percentile(pinch.map(f => f.pinch), 0.8) * 1.5;
+    if (palm.length) threshold = Math.min(threshold, percentile(palm.map(f => f.pinch), 0.2) * 0.6);
+    if (threshold > 0) config.pinchDistance = threshold;
+  }
+  return config;
+};
+
+export const loadProfiles = (): GestureProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (raw) return (JSON.parse(raw) as GestureProfile[]).map(p => ({ ...p, config: { ...DEFAULT_GESTURE_CONFIG, ...p.config } }));
+  } catch (e) { console.warn("Gesture profiles unreadable:", e); }
+  return [];
+};
+
+export const saveProfiles = (profiles: GestureProfile[]) => {
+  try { localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles)); }
+  catch (e) { console.warn("Gesture profiles not saved:", e); }
+};
+
+export const getActiveProfileName = (): string => {
+  try { return localStorage.getItem(ACTIVE_KEY) || DEFAULT_PROFILE_NAME; }
+  catch (e) { console.warn("Active gesture profile unreadable:", e); return DEFAULT_PROFILE_NAME; }
+};
+
+export const setActiveProfileName = (name: string) => {
+  try { localStorage.setItem(ACTIVE_KEY, name); }
+  catch (e) { console.warn("Active gesture profile not saved:", e); }
+};
+
+export const resolveProfileConfig = (name: string, profiles: GestureProfile[] = loadProfiles()): GestureConfig =>
+  profiles.find(p => p.name === name)?.config || DEFAULT_GESTURE_CONFIG;
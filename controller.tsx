@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import './index.css';
+import { AppMode } from './types';
+import { RemoteCommand, RemoteSender, RemoteStatus, createRemoteSender, getRemoteUrl } from './remote';
+
+// --- PHONE REMOTE ---
+// controller.html: big touch buttons that send the same commands as the display's gestures.
+
+const NAME_KEY = 'noel-tree:remote-name';
+
+const loadName = () => {
+  try { return localStorage.getItem(NAME_KEY) || 'Phone'; } catch { return 'Phone'; }
+};
+
+const MODES: { mode: RemoteCommand & { type: 'mode' }; icon: string; label: string }[] = [
+  { mode: { type: 'mode', mode: AppMode.SCATTER }, icon: '✋', label: 'Scatter' },
+  { mode: { type: 'mode', mode: AppMode.TREE }, icon: '✊', label: 'Gather' },
+  { mode: { type: 'mode', mode: AppMode.TEXT }, icon: '👍', label: 'Text' },
+];
+
+const statusColor: Record<RemoteStatus, string> = { OPEN: 'bg-green-400', CONNECTING: 'bg-accent-400', CLOSED: 'bg-red-500' };
+const buttonClass = "flex flex-col items-center justify-center gap-2 rounded-2xl bg-black/40 border border-accent-500/60 text-accent-400 active:scale-95 active:bg-accent-500/20 transition-transform select-none";
+
+const RemoteControllerPage: React.FC = () => {
+  const url = getRemoteUrl();
+  const [name, setName] = useState(loadName);
+  const [draftName, setDraftName] = useState(name);
+  const [status, setStatus] = useState<RemoteStatus>('CONNECTING');
+  const [speed, setSpeed] = useState(0);
+  const senderRef = useRef<RemoteSender | null>(null);
+
+  // A new name reconnects so the display shows it right away
+  useEffect(() => {
+    const sender = createRemoteSender(url, name, setStatus);
+    senderRef.current = sender;
+    return () => { sender.close(); senderRef.current = null; };
+  }, [url, name]);
+
+  const send = (command: RemoteCommand) => {
+    senderRef.current?.send(command);
+    navigator.vibrate?.(15);
+  };
+
+  const commitName = () => {
+    const next = draftName.trim().slice(0, 40) || 'Phone';
+    setDraftName(next);
+    if (next === name) return;
+    try { localStorage.setItem(NAME_KEY, next); } catch { /* Remembering the name is optional */ }
+    setName(next);
+  };
+
+  const rotate = (value: number) => { setSpeed(value); send({ type: 'rotate', speed: value }); };
+
+  return (
+    <div className="min-h-full flex flex-col gap-6 p-6 bg-black text-white" style={{ fontFamily: '"Cinzel", serif' }}>
+      <div className="flex items-center justify-between border-b border-accent-500/40 pb-3">
+        <span className="text-accent-400 text-lg font-bold uppercase tracking-[0.2em]">Tree Remote</span>
+        <span className="flex items-center gap-2 text-[10px] font-mono tracking-widest text-white/60">
+          <span className={`w-2 h-2 rounded-full ${statusColor[status]}`} />
+          {url ? `RELAY ${status}` : status === 'OPEN' ? 'SAME BROWSER' : 'NOT SUPPORTED'}
+        </span>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-[10px] text-accent-500/80 font-bold tracking-widest uppercase">Shown on the display as</span>
+        <input value={draftName} onChange={e => setDraftName(e.target.value)} onBlur={commitName} onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className="px-3 py-2 rounded bg-white/5 border border-white/20 text-white font-sans focus:outline-none focus:border-accent-400" />
+      </label>
+
+      <div className="grid grid-cols-3 gap-3">
+        {MODES.map(m => (
+          <button key={m.label} onClick={() => send(m.mode)} className={`${buttonClass} h-24`}>
+            <span className="text-3xl">{m.icon}</span>
+            <span className="text-[10px] font-bold uppercase tracking-widest">{m.label}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={() => send({ type: 'snap' })} className={`${buttonClass} h-28 border-white/80 text-white`}>
+          <span className="text-4xl">📸</span>
+          <span className="text-xs font-bold uppercase tracking-[0.2em]">Snap</span>
+        </button>
+        <button onClick={() => send({ type: 'recall' })} className={`${buttonClass} h-28`}>
+          <span className="text-4xl">👌</span>
+          <span className="text-xs font-bold uppercase tracking-[0.2em]">Recall</span>
+        </button>
+      </div>
+
+      <label className="flex flex-col gap-2">
+        <span className="text-[10px] text-accent-500/80 font-bold tracking-widest uppercase">Spin {speed === 0 ? 'stopped' : speed > 0 ? 'left' : 'right'}</span>
+        <input type="range" min={-1} max={1} step={0.05} value={speed} onChange={e => rotate(Number(e.target.value))} className="w-full accent-[rgb(var(--accent-400))]" />
+        <button onClick={() => rotate(0)} className="self-center px-4 py-1 text-[10px] font-bold tracking-widest uppercase border border-white/40 text-white/80 rounded">Stop</button>
+      </label>
+    </div>
+  );
+};
+
+const rootElement = document.getElementById('root');
+if (rootElement) createRoot(rootElement).render(<RemoteControllerPage />);
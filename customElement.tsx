@@ -0,0 +1,105 @@
+import { createRef } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import NoelTree, { NoelTreeHandle, PhotoInfo } from './NoelTree';
+import { SceneConfigResult, SCENE_CONFIG_URL, loadSceneConfig } from './sceneConfig';
+import { FormationId } from './types';
+import { GuestInbox, createHttpGuestInbox } from './guestUploads';
+import { ThemeId, THEMES } from './themes';
+
+// --- CUSTOM ELEMENT ---
+// <noel-tree config-url="./scene-config.json" ui="false" keyboard="false" remote="ws://host:8787" guests="http://host:8788" guest-key="..." theme="winter" style="height: 600px"></noel-tree>
+// Methods mirror NoelTreeHandle. Events bubble as CustomEvents with the payload in `detail`:
+//   ready, modechange { mode }, gesturechange { gesture }, photoadded { photo }, photozoomed { photo }, treeerror { message }
+// The element renders into the light DOM, so the host page must include the app's stylesheet.
+
+const isOff = (value: string | null) => value === 'false' || value === 'off' || value === '0';
+const toThemeId = (value: string | null) => THEMES.some(t => t.id === value) ? value as ThemeId : undefined;
+
+export class NoelTreeElement extends HTMLElement {
+  static observedAttributes = ['ui', 'keyboard', 'remote', 'guests', 'guest-key', 'theme', 'config-url'];
+
+  private root: Root | null = null;
+  private tree = createRef<NoelTreeHandle>();
+  private scene: SceneConfigResult | null = null;
+  private sceneVersion = 0; // Bumped per config-url load; also the tree's key
+  private guests: { key: string; inbox: GuestInbox } | null = null;
+
+  connectedCallback() {
+    if (!this.style.display) this.style.display = 'block';
+    this.root = createRoot(this);
+    this.loadScene();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, value: string | null) {
+    if (name === 'config-url') { if (this.root && value !== oldValue) this.loadScene(); }
+    else if (this.scene) this.renderTree();
+  }
+
+  // NoelTree reads its config once when it mounts, so a new config-url starts a fresh tree
+  private loadScene() {
+    const root = this.root;
+    const version = ++this.sceneVersion;
+    // URL query overrides still apply, like in the standalone app
+    loadSceneConfig(this.getAttribute('config-url') || SCENE_CONFIG_URL).then(scene => {
+      if (this.root !== root || this.sceneVersion !== version) return; // Removed or re-pointed while loading
+      this.scene = scene;
+      this.renderTree();
+    });
+  }
+
+  private emit(type: string, detail?: unknown) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  // Same inbox object until the attributes change, so the tree does not restart its polling
+  private guestInbox(): GuestInbox | undefined {
+    const url = this.getAttribute('guests');
+    if (!url) { this.guests = null; return undefined; }
+    const key = `${url} ${this.getAttribute('guest-key') ?? ''}`;
+    if (this.guests?.key !== key) this.guests = { key, inbox: createHttpGuestInbox(url, this.getAttribute('guest-key') ?? '') };
+    return this.guests.inbox;
+  }
+
+  private renderTree() {
+    if (!this.root || !this.scene) return;
+    this.root.render(
+      <NoelTree
+        key={this.sceneVersion}
+        ref={this.tree}
+        config={this.scene.config} configErrors={this.scene.errors}
+        showUi={!isOff(this.getAttribute('ui'))} keyboard={!isOff(this.getAttribute('keyboard'))}
+        remote={isOff(this.getAttribute('remote')) ? false : this.getAttribute('remote') || true}
+        guests={this.guestInbox()}
+        theme={toThemeId(this.getAttribute('theme'))}
+        onReady={() => this.emit('ready')}
+        onModeChange={mode => this.emit('modechange', { mode })}
+        onGestureChange={gesture => this.emit('gesturechange', { gesture })}
+        onPhotoAdded={photo => this.emit('photoadded', { photo })}
+        onPhotoZoomed={photo => this.emit('photozoomed', { photo })}
+        onError={message => this.emit('treeerror', { message })}
+      />
+    );
+  }
+
+  private get handle(): NoelTreeHandle {
+    if (!this.tree.current) throw new Error("<noel-tree> is not ready yet, wait for its ready event");
+    return this.tree.current;
+  }
+
+  setMode(mode: FormationId) { this.handle.setMode(mode); }
+  getMode(): FormationId { return this.handle.getMode(); }
+  capturePhoto(): boolean { return this.handle.capturePhoto(); }
+  addPhoto(imageUrl: string, caption?: string): Promise<PhotoInfo> { return this.handle.addPhoto(imageUrl, caption); }
+  zoomPhoto(id: string | null): boolean { return this.handle.zoomPhoto(id); }
+  deletePhoto(id: string): boolean { return this.handle.deletePhoto(id); }
+  listPhotos(): PhotoInfo[] { return this.handle.listPhotos(); }
+}
+
+export const defineNoelTreeElement = (tag = 'noel-tree') => {
+  if (!customElements.get(tag)) customElements.define(tag, NoelTreeElement);
+};
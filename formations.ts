@@ -0,0 +1,257 @@
+import * as THREE from 'three';
+import { AppMode, FormationId, GestureType, Particle } from './types';
+import { SceneConfig } from './sceneConfig';
+
+// --- FORMATION REGISTRY ---
+// A formation decides where every particle wants to be. The animation loop only asks the active
+// formation for targets, so a new shape is one `registerFormation` call:
+//   - `layout` returns points once (assigned to the non-photo particles and kept on `particle.targets`)
+//   - `motion` optionally moves a laid out point over time (spinning, beating...)
+//   - `target` replaces both for formations that read per-particle data directly (tree, scatter, text)
+// Particles without a point in a formation (e.g. photos) drift at their scatter position.
+// A layout may also return one color per point, which tints the instanced particles while active.
+// The registry is shared by every tree on the page; formations that belong to one tree only (its
+// logo) are passed to the lookups as `own` instead of being registered.
+
+export interface FormationContext {
+  tree: SceneConfig['tree'];
+}
+
+export interface FormationFrame {
+  time: number;  // s
+  burst: number; // 1 at the start of a two-palm burst, decays to 0
+  particles: Particle[]; // Everything in the scene, for formations that arrange particles relative to each other
+}
+
+export interface FormationLayout {
+  points: THREE.Vector3[]; // May be fewer than requested, the rest of the particles stay scattered
+  colors?: THREE.Color[];  // Same order as `points`
+}
+
+export interface Formation {
+  id: FormationId;
+  label: string;
+  icon: string;
+  gesture?: GestureType; // Entering this gesture switches to the formation
+  key?: string;          // Keyboard shortcut
+  menu?: boolean;        // Listed in the formation strip (the built-ins have their own menu entries)
+  spin?: number;         // Multiplier on the idle group rotation, default 1
+  faceCamera?: boolean;  // Turn the group to face the camera instead of spinning
+  photosFaceFront?: boolean;   // Photos turn square to the group's front (+Z)
+  photoScale?: (frame: FormationFrame) => number; // Photo size while this formation is active, default 1
+  layout?: (count: number, ctx: FormationContext) => THREE.Vector3[] | FormationLayout;
+  motion?: (base: THREE.Vector3, frame: FormationFrame, out: THREE.Vector3) => THREE.Vector3;
+  target?: (p: Particle, frame: FormationFrame, out: THREE.Vector3) => THREE.Vector3;
+}
+
+const registry = new Map<FormationId, Formation>();
+
+export const registerFormation = (formation: Formation) => { registry.set(formation.id, formation); };
+export const unregisterFormation = (id: FormationId) => { registry.delete(id); };
+export const getFormation = (id: FormationId, own: Formation[] = []): Formation | undefined => own.find(f => f.id === id) ?? registry.get(id);
+export const listFormations = (own: Formation[] = []): Formation[] => [...registry.values(), ...own];
+export const getFormationForGesture = (gesture: GestureType, own: Formation[] = []) => listFormations(own).find(f => f.gesture === gesture);
+export const getFormationForKey = (key: string, own: Formation[] = []) => listFormations(own).find(f => f.key === key);
+
+// Layout bookkeeping of one tree, keyed by its particle array
+interface LayoutState {
+  tinted: Set<FormationId>; // Formations whose current layout has colors
+  version: number;          // Bumped by every layout, so tints can be re-applied when the active formation changes shape
+}
+const layoutStates = new WeakMap<Particle[], LayoutState>();
+const getLayoutState = (particles: Particle[]) => {
+  let state = layoutStates.get(particles);
+  if (!state) layoutStates.set(particles, state = { tinted: new Set(), version: 0 });
+  return state;
+};
+
+export const hasFormationTints = (id: FormationId, particles: Particle[]) => getLayoutState(particles).tinted.has(id);
+export const getLayoutVersion = (particles: Particle[]) => getLayoutState(particles).version;
+
+const shuffle = <T>(items: T[]) => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+// (Re)computes one formation's points for the current particles
+export const layoutFormation = (formation: Formation, particles: Particle[], ctx: FormationContext) => {
+  if (!formation.layout) return;
+  const { id } = formation;
+  // Shuffle the particles rather than the points, so point/color pairs stay together
+  const targets = shuffle(particles.filter(p => !p.isPhoto));
+  const result = formation.layout(targets.length, ctx);
+  const { points, colors } = Array.isArray(result) ? { points: result, colors: undefined } : result;
+  targets.forEach((p, i) => {
+    p.targets ||= {};
+    if (i < points.length) p.targets[id] = points[i]; else delete p.targets[id];
+    if (colors && i < colors.length) (p.tints ||= {})[id] = colors[i]; else if (p.tints) delete p.tints[id];
+  });
+  const state = getLayoutState(particles);
+  if (colors) state.tinted.add(id); else state.tinted.delete(id);
+  state.version++;
+};
+
+// Loads one formation's colors into the instance tints (instances without one keep their own color)
+export const applyFormationTints = (id: FormationId, particles: Particle[]) =>
+  particles.forEach(p => { if (p.instance) p.instance.batch.setTintAt(p.instance.index, p.tints?.[id] ?? null); });
+
+export const layoutFormations = (particles: Particle[], ctx: FormationContext, own: Formation[] = []) =>
+  listFormations(own).forEach(f => layoutFormation(f, particles, ctx));
+
+export const getFormationTarget = (formation: Formation, p: Particle, frame: FormationFrame, out: THREE.Vector3): THREE.Vector3 => {
+  if (formation.target) return formation.target(p, frame, out);
+  const base = p.targets?.[formation.id];
+  if (!base) return p.scatterPos;
+  return formation.motion ? formation.motion(base, frame, out) : base;
+};
+
+// --- BUILT-IN FORMATIONS ---
+const BURST_STRENGTH = 0.6; // Extra scatter radius at the peak of a two-palm burst
+
+const gaussian = () => (Math.random() + Math.random() + Math.random() - 1.5) / 1.5;
+
+registerFormation({
+  id: AppMode.SCATTER, label: 'Scatter', icon: '✋', gesture: 'OPEN_PALM',
+  target: (p, { burst }, out) => burst > 0 ? out.copy(p.scatterPos).multiplyScalar(1 + burst * BURST_STRENGTH) : p.scatterPos,
+});
+
+registerFormation({ id: AppMode.TREE, label: 'Gather', icon: '✊', gesture: 'FIST', target: p => p.treePos });
+
+// Slow down for readability
+registerFormation({ id: AppMode.TEXT, label: 'Text', icon: '👍', gesture: 'THUMBS_UP', spin: 0.1, target: p => p.textPos });
+
+const _axisX = new THREE.Vector3(1, 0, 0);
+const _axisZ = new THREE.Vector3(0, 0, 1);
+const _axisY = new THREE.Vector3(0, 1, 0);
+const GALAXY_TILT = -0.35;
+
+// Three logarithmic arms around a dense core, turning in their own plane
+registerFormation({
+  id: 'GALAXY', label: 'Galaxy', icon: '🌌', key: '4', menu: true, faceCamera: true,
+  layout: (count, { tree }) => {
+    const radius = tree.height * 0.7;
+    return Array.from({ length: count }, (_, i) => {
+      const t = Math.pow(Math.random(), 0.7);
+      const arm = (i % 3) * (Math.PI * 2 / 3);
+      const angle = arm + t * Math.PI * 3 + gaussian() * 0.25 * (1 - t * 0.5);
+      const r = t * radius + gaussian() * 2;
+      return new THREE.Vector3(Math.cos(angle) * r, Math.sin(angle) * r, gaussian() * 3 * (1 - t))
+        .applyAxisAngle(_axisX, GALAXY_TILT);
+    });
+  },
+  motion: (base, { time }, out) => out.copy(base)
+    .applyAxisAngle(_axisX, -GALAXY_TILT).applyAxisAngle(_axisZ, time * 0.15).applyAxisAngle(_axisX, GALAXY_TILT),
+});
+
+// Filled parametric heart with a gentle heartbeat
+registerFormation({
+  id: 'HEART', label: 'Heart', icon: '❤️', key: '5', menu: true, faceCamera: true,
+  layout: (count, { tree }) => {
+    const scale = tree.height / 34;
+    return Array.from({ length: count }, () => {
+      const t = Math.random() * Math.PI * 2;
+      // Most particles on the outline so the shape reads clearly, the rest fill it
+      const fill = Math.random() < 0.6 ? 1 : Math.sqrt(Math.random());
+      const x = 16 * Math.pow(Math.sin(t), 3);
+      const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+      const depth = Math.sqrt(1 - fill * fill * 0.9) * 4;
+      return new THREE.Vector3(x * fill * scale, (y * fill + 2) * scale, gaussian() * depth);
+    });
+  },
+  motion: (base, { time }, out) => {
+    const beat = Math.pow(Math.max(0, Math.sin(time * 4)), 8) * 0.08;
+    return out.copy(base).multiplyScalar(1 + beat);
+  },
+});
+
+// Meridians and parallels, so the rotation is visible, turning on a tilted axis
+const GLOBE_TILT = 0.41; // rad, like the Earth
+registerFormation({
+  id: 'GLOBE', label: 'Globe', icon: '🌍', key: '6', menu: true, spin: 0,
+  layout: (count, { tree }) => {
+    const radius = tree.height * 0.45;
+    return Array.from({ length: count }, (_, i) => {
+      let lat: number, lon: number;
+      if (i % 2) { lon = Math.floor(Math.random() * 12) / 12 * Math.PI * 2; lat = (Math.random() - 0.5) * Math.PI; }
+      else { lat = (Math.floor(Math.random() * 7) - 3) / 8 * Math.PI; lon = Math.random() * Math.PI * 2; }
+      return new THREE.Vector3(Math.cos(lat) * Math.sin(lon) * radius, Math.sin(lat) * radius, Math.cos(lat) * Math.cos(lon) * radius);
+    });
+  },
+  motion: (base, { time }, out) => out.copy(base).applyAxisAngle(_axisY, time * 0.4).applyAxisAngle(_axisZ, GLOBE_TILT),
+});
+
+// --- PHOTO WALL ---
+// Every photo in capture order on a grid facing the camera, shrunk to fit; ornaments stay scattered
+const WALL_WIDTH = 100, WALL_HEIGHT = 60;
+const CELL_W = 7, CELL_H = 8.4; // Polaroid plus a margin
+
+interface WallLayout {
+  frame: FormationFrame; // Last frame it was checked against
+  key: string;           // Photo ids in order
+  slots: Map<Particle, THREE.Vector3>;
+  scale: number;
+}
+const walls = new WeakMap<Particle[], WallLayout>(); // One per tree
+
+export const getPhotosByTime = (particles: Particle[]) =>
+  particles.filter(p => p.isPhoto).sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+
+// Checked once per frame, laid out again only when the photos change
+const getWall = (frame: FormationFrame): WallLayout => {
+  const wall = walls.get(frame.particles);
+  if (wall?.frame === frame) return wall;
+  const photos = getPhotosByTime(frame.particles);
+  const key = photos.map(p => p.id).join(',');
+  if (wall && key === wall.key) { wall.frame = frame; return wall; }
+  const n = Math.max(photos.length, 1);
+  // Columns so the grid has roughly the wall's aspect ratio
+  const cols = Math.max(1, Math.ceil(Math.sqrt(n * (WALL_WIDTH / WALL_HEIGHT) * (CELL_H / CELL_W))));
+  const rows = Math.ceil(n / cols);
+  const scale = Math.min(1, WALL_WIDTH / (cols * CELL_W), WALL_HEIGHT / (rows * CELL_H));
+  const slots = new Map<Particle, THREE.Vector3>();
+  photos.forEach((p, i) => {
+    const col = i % cols, row = Math.floor(i / cols);
+    slots.set(p, new THREE.Vector3((col - (cols - 1) / 2) * CELL_W * scale, ((rows - 1) / 2 - row) * CELL_H * scale + 3, 10));
+  });
+  const next = { frame, key, slots, scale };
+  walls.set(frame.particles, next);
+  return next;
+};
+
+registerFormation({
+  id: 'WALL', label: 'Photo Wall', icon: '🖼️', key: '9', menu: true, faceCamera: true, photosFaceFront: true,
+  photoScale: frame => getWall(frame).scale,
+  target: (p, frame) => p.isPhoto ? getWall(frame).slots.get(p) || p.scatterPos : p.scatterPos,
+});
+
+// Box surface, a ribbon cross and a bow on top
+registerFormation({
+  id: 'GIFT', label: 'Gift', icon: '🎁', key: '7', menu: true, spin: 0.5,
+  layout: (count, { tree }) => {
+    const h = tree.height * 0.25; // Half size
+    const y0 = -tree.height * 0.1;
+    return Array.from({ length: count }, () => {
+      const r = Math.random();
+      if (r < 0.7) {
+        // Pick a face, then a point on it
+        const axis = Math.floor(Math.random() * 3), sign = Math.random() < 0.5 ? -1 : 1;
+        const v = [(Math.random() * 2 - 1) * h, (Math.random() * 2 - 1) * h, (Math.random() * 2 - 1) * h];
+        v[axis] = sign * h;
+        return new THREE.Vector3(v[0], v[1] + y0, v[2]);
+      }
+      if (r < 0.9) {
+        // Ribbon bands wrapped around the x = 0 and z = 0 planes, just proud of the box
+        const w = gaussian() * h * 0.08, u = (Math.random() * 2 - 1) * h, s = (Math.random() < 0.5 ? -1 : 1) * h * 1.02;
+        const [y, across] = Math.random() < 0.5 ? [s, u] : [u, s];
+        return Math.random() < 0.5 ? new THREE.Vector3(w, y + y0, across) : new THREE.Vector3(across, y + y0, w);
+      }
+      // Two loops of the bow
+      const a = Math.random() * Math.PI * 2, loop = Math.random() < 0.5 ? -1 : 1;
+      const lr = h * 0.35;
+      return new THREE.Vector3(loop * (lr + Math.cos(a) * lr), h + y0 + lr * 0.6 + Math.sin(a) * lr * 0.8, gaussian() * 0.6);
+    });
+  },
+});
@@ -0,0 +1,102 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { GestureType } from './types';
+
+// --- GESTURE CLASSIFIER ---
+// Maps one hand's 21 MediaPipe landmarks to a GestureType. All thresholds come from a config
+// object so they can be tuned (or calibrated per user) without touching the prediction loop.
+
+export type ClassifiedGesture = Exclude<GestureType, 'NONE'>;
+
+export interface GestureConfig {
+  fingerExtension: number;     // Tip must be this much further from the wrist than the MCP joint
+  thumbExtension: number;      // Strict thumb check used by THUMBS_UP
+  thumbExtensionLoose: number; // Relaxed thumb check used by L_SHAPE
+  pinchDistance: number;       // Max thumb-index tip distance (normalized image units)
+  confidenceBand: number;      // Relative distance from a threshold that maps to full confidence
+  minConfidence: number;       // Matches below this are reported as NONE
+  priority: ClassifiedGesture[]; // Evaluation order, first match wins
+}
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+  fingerExtension: 1.1,
+  thumbExtension: 1.2,
+  thumbExtensionLoose: 1.05,
+  pinchDistance: 0.06,
+  confidenceBand: 0.15,
+  minConfidence: 0,
+  priority: ['PINCH', 'THUMBS_UP', 'FIST', 'OPEN_PALM', 'L_SHAPE'],
+};
+
+export interface HandFeatures {
+  index: number;  // Tip/MCP distance-to-wrist ratios, > 1 means reaching out
+  middle: number;
+  ring: number;
+  pinky: number;
+  thumb: number;  // Thumb tip vs IP joint distance-to-wrist ratio
+  pinch: number;  // Thumb tip to index tip distance
+  thumbUp: boolean; // Y grows downwards, so tip above IP above MCP
+}
+
+export interface GestureResult {
+  gesture: GestureType;
+  confidence: number; // 0..1
+  features: HandFeatures | null;
+}
+
+const dist = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+export const extractHandFeatures = (l: NormalizedLandmark[]): HandFeatures => {
+  const wrist = l[0];
+  const ratio = (tip: number, base: number) => dist(l[tip], wrist) / Math.max(dist(l[base], wrist), 1e-6);
+  return {
+    index: ratio(8, 5), middle: ratio(12, 9), ring: ratio(16, 13), pinky: ratio(20, 17),
+    thumb: ratio(4, 3),
+    pinch: dist(l[4], l[8]),
+    thumbUp: l[4].y < l[3].y && l[3].y < l[2].y,
+  };
+};
+
+// Soft scores: 0.5 exactly at the threshold, 1 (or 0) once `band` of the threshold past it
+const above = (v: number, t: number, band: number) => clamp01(0.5 + (v - t) / (2 * t * band));
+const below = (v: number, t: number, band: number) => clamp01(0.5 + (t - v) / (2 * t * band));
+
+// Rule for one gesture: whether it matches, and how far past its thresholds it is
+type Rule = (f: HandFeatures, c: GestureConfig) => { match: boolean; confidence: number };
+
+const RULES: Record<ClassifiedGesture, Rule> = {
+  PINCH: (f, { fingerExtension: t, pinchDistance: pd, confidenceBand: b }) => ({
+    match: f.pinch < pd && f.middle > t && f.ring > t && f.pinky > t,
+    confidence: Math.min(below(f.pinch, pd, b), above(f.middle, t, b), above(f.ring, t, b), above(f.pinky, t, b)),
+  }),
+  THUMBS_UP: (f, { fingerExtension: t, thumbExtension: tt, confidenceBand: b }) => ({
+    match: f.index <= t && f.middle <= t && f.ring <= t && f.pinky <= t && f.thumb > tt && f.thumbUp,
+    confidence: Math.min(below(f.index, t, b), below(f.middle, t, b), below(f.ring, t, b), below(f.pinky, t, b), above(f.thumb, tt, b)),
+  }),
+  // Fingers curled but NOT strictly thumbs up (THUMBS_UP is checked first)
+  FIST: (f, { fingerExtension: t, confidenceBand: b }) => ({
+    match: f.index <= t && f.middle <= t && f.ring <= t && f.pinky <= t,
+    confidence: Math.min(below(f.index, t, b), below(f.middle, t, b), below(f.ring, t, b), below(f.pinky, t, b)),
+  }),
+  OPEN_PALM: (f, { fingerExtension: t, confidenceBand: b }) => ({
+    match: f.index > t && f.middle > t && f.ring > t && f.pinky > t,
+    confidence: Math.min(above(f.index, t, b), above(f.middle, t, b), above(f.ring, t, b), above(f.pinky, t, b)),
+  }),
+  L_SHAPE: (f, { fingerExtension: t, thumbExtensionLoose: tl, confidenceBand: b }) => ({
+    match: f.thumb > tl && f.index > t && f.pinky <= t,
+    confidence: Math.min(above(f.thumb, tl, b), above(f.index, t, b), below(f.pinky, t, b)),
+  }),
+};
+
+export const classifyFeatures = (f: HandFeatures, config: GestureConfig = DEFAULT_GESTURE_CONFIG): GestureResult => {
+  for (const gesture of config.priority) {
+    const { match, confidence } = RULES[gesture](f, config);
+    if (match && confidence >= config.minConfidence) return { gesture, confidence, features: f };
+  }
+  return { gesture: 'NONE', confidence: 1, features: f };
+};
+
+export const classifyGesture = (landmarks: NormalizedLandmark[] | undefined, config: GestureConfig = DEFAULT_GESTURE_CONFIG): GestureResult => {
+  if (!landmarks || landmarks.length < 21) return { gesture: 'NONE', confidence: 0, features: null };
+  return classifyFeatures(extractHandFeatures(landmarks), config);
+};
@@ -0,0 +1,112 @@
+import { GestureType } from './types';
+
+// --- GESTURE STATE MACHINE ---
+// Debounces raw per-frame classifications using real elapsed time, so behaviour does not depend
+// on the camera or display frame rate:
+//   - a new gesture must be seen continuously for `enterMs` before it becomes active
+//   - the active gesture survives `exitMs` of other readings (hysteresis against noisy frames)
+//   - gestures with a hold duration report progress and fire once when the hold completes
+
+export interface GestureTiming {
+  enterMs: number;
+  exitMs: number;
+  holdMs: Partial<Record<GestureType, number>>;
+}
+
+export const DEFAULT_GESTURE_TIMING: GestureTiming = {
+  enterMs: 120,
+  exitMs: 250,
+  // Same durations the frame counters had at 60 fps (15 and 30 frames)
+  // FIST only acts on its hold while a photo is zoomed (delete)
+  holdMs: { PINCH: 250, L_SHAPE: 500, FIST: 900 },
+};
+
+export interface GestureUpdate {
+  active: GestureType;
+  entered: GestureType | null;      // Became active on this update
+  exited: GestureType | null;       // Stopped being active on this update
+  holdCompleted: GestureType | null; // Hold finished on this update (fires once per activation)
+  holdProgress: number;             // 0..1 for gestures with a hold, else 0
+}
+
+export interface GestureMachine {
+  update: (raw: GestureType, now: number) => GestureUpdate;
+  reset: () => void;
+  readonly active: GestureType;
+}
+
+export const createGestureMachine = (timing: GestureTiming = DEFAULT_GESTURE_TIMING): GestureMachine => {
+  let active: GestureType = 'NONE';
+  let activeSince = 0;
+  let lastSeenActive = 0;
+  let candidate: GestureType = 'NONE';
+  let candidateSince = 0;
+  let holdFired = false;
+
+  const reset = () => {
+    active = 'NONE'; candidate = 'NONE';
+    activeSince = lastSeenActive = candidateSince = 0;
+    holdFired = false;
+  };
+
+  const update = (raw: GestureType, now: number): GestureUpdate => {
+    let entered: GestureType | null = null;
+    let exited: GestureType | null = null;
+    let holdCompleted: GestureType | null = null;
+
+    if (raw !== candidate) { candidate = raw; candidateSince = now; }
+
+    if (raw === active) {
+      lastSeenActive = now;
+    } else if (active === 'NONE' || now - lastSeenActive >= timing.exitMs) {
+      // Either nothing is active, or the active gesture has been gone long enough to release it
+      const next = candidate === 'NONE' || now - candidateSince >= timing.enterMs ? candidate : 'NONE';
+      if (next !== active) {
+        if (active !== 'NONE') exited = active;
+        active = next;
+        activeSince = lastSeenActive = now;
+        holdFired = false;
+        if (active !== 'NONE') entered = active;
+      }
+    }
+
+    const hold = timing.holdMs[active];
+    let holdProgress = 0;
+    if (hold) {
+      holdProgress = Math.min((now - activeSince) / hold, 1);
+      if (holdProgress >= 1 && !holdFired) { holdFired = true; holdCompleted = active; }
+    }
+
+    return { active, entered, exited, holdCompleted, holdProgress };
+  };
+
+  return { update, reset, get active() { return active; } };
+};
+
+// --- TWO-FIST RECORD GESTURE ---
+// Recording has a pose of its own: both hands closed into fists and held. One fist gathers the tree
+// and open palms scatter it, so neither starts or stops a clip on the way.
+
+export const RECORD_HOLD_MS = 2000;
+
+export interface RecordGestureUpdate {
+  fired: boolean;   // Hold finished on this update: start or stop recording
+  progress: number; // 0..1 of the hold
+}
+
+export interface RecordGesture {
+  update: (left: GestureType, right: GestureType, now: number) => RecordGestureUpdate;
+  reset: () => void;
+}
+
+export const createRecordGesture = (holdMs = RECORD_HOLD_MS, timing: GestureTiming = DEFAULT_GESTURE_TIMING): RecordGesture => {
+  // The same debounce and hysteresis as one hand, with "both fists" as the only gesture
+  const machine = createGestureMachine({ ...timing, holdMs: { FIST: holdMs } });
+  return {
+    update: (left, right, now) => {
+      const u = machine.update(left === 'FIST' && right === 'FIST' ? 'FIST' : 'NONE', now);
+      return { fired: u.holdCompleted === 'FIST', progress: u.holdProgress };
+    },
+    reset: machine.reset,
+  };
+};
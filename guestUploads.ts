@@ -0,0 +1,84 @@
+// --- GUEST UPLOADS ---
+// Guests scan a QR code on the display, upload a picture from their own phone, and once the host
+// approves it the picture flies onto the tree as a polaroid. The display only talks to a
+// `GuestInbox`; scripts/guest-server.mjs is the local stand-in for a real backend, and
+// `createMemoryGuestInbox` runs the same flow inside one page.
+
+export type GuestUploadStatus = 'pending' | 'approved' | 'rejected' | 'shown';
+
+export interface GuestUpload {
+  id: string;
+  name: string;
+  caption: string;
+  createdAt: number; // epoch ms
+  status: GuestUploadStatus;
+  imageUrl: string;  // Loadable by the display (CORS enabled)
+}
+
+export interface GuestInbox {
+  uploadPageUrl: string;                    // What the QR code opens on the guest's phone
+  list: () => Promise<GuestUpload[]>;       // Pending and approved uploads, oldest first
+  setStatus: (id: string, status: Exclude<GuestUploadStatus, 'pending'>) => Promise<void>;
+}
+
+// `?guests=http://host:8788&guestKey=...`, as printed by `npm run guests`
+export const getGuestInboxConfig = (search = window.location.search): { url: string; key: string } | null => {
+  const params = new URLSearchParams(search);
+  const url = params.get('guests');
+  return url ? { url: url.replace(/\/+$/, ''), key: params.get('guestKey') ?? '' } : null;
+};
+
+// --- HTTP (scripts/guest-server.mjs) ---
+export const createHttpGuestInbox = (baseUrl: string, moderatorKey: string): GuestInbox => {
+  const base = baseUrl.replace(/\/+$/, '');
+  const key = `key=${encodeURIComponent(moderatorKey)}`;
+  const request = async (path: string, init?: RequestInit) => {
+    const res = await fetch(`${base}${path}`, init);
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.error ? `Guest inbox: ${body.error}` : `Guest inbox returned ${res.status}`);
+    }
+    return res.json();
+  };
+  const action: Record<Exclude<GuestUploadStatus, 'pending'>, string> = { approved: 'approve', rejected: 'reject', shown: 'shown' };
+
+  return {
+    uploadPageUrl: `${base}/`,
+    list: async () => {
+      const items: Omit<GuestUpload, 'imageUrl'>[] = await request(`/uploads?${key}`);
+      return items.map(u => ({ ...u, imageUrl: `${base}/uploads/${encodeURIComponent(u.id)}/image?${key}` }));
+    },
+    setStatus: async (id, status) => { await request(`/uploads/${encodeURIComponent(id)}/${action[status]}?${key}`, { method: 'POST' }); },
+  };
+};
+
+// --- IN-MEMORY ---
+// Same behaviour without a server, e.g. to try the moderation queue from the console or in a demo
+export interface MemoryGuestInbox extends GuestInbox {
+  submit: (image: Blob, name?: string, caption?: string) => GuestUpload;
+}
+
+export const createMemoryGuestInbox = (moderation = true, uploadPageUrl = window.location.href): MemoryGuestInbox => {
+  const uploads = new Map<string, GuestUpload>();
+  return {
+    uploadPageUrl,
+    list: async () => [...uploads.values()].filter(u => u.status === 'pending' || u.status === 'approved').map(u => ({ ...u })),
+    setStatus: async (id, status) => {
+      const upload = uploads.get(id);
+      if (!upload) throw new Error('Guest inbox: unknown upload');
+      upload.status = status;
+      if (status === 'rejected' || status === 'shown') { URL.revokeObjectURL(upload.imageUrl); uploads.delete(id); }
+    },
+    submit: (image, name = '', caption = '') => {
+      const upload: GuestUpload = {
+        id: `guest-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name: name.slice(0, 40), caption: caption.slice(0, 60),
+        createdAt: Date.now(), status: moderation ? 'pending' : 'approved', imageUrl: URL.createObjectURL(image),
+      };
+      uploads.set(upload.id, upload);
+      return { ...upload };
+    },
+  };
+};
+
+// Caption on the guest's polaroid
+export const guestCaption = (u: GuestUpload) => u.caption || (u.name ? `From ${u.name}` : '');
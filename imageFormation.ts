@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+import { Formation, FormationLayout } from './formations';
+
+// --- LOGO FORMATION ---
+// Samples an uploaded PNG or SVG the same way the text formation samples glyphs: every opaque
+// pixel is a candidate target. Images without transparency use the pixels that differ from
+// their corner color instead, so a logo on a flat background still works.
+// Each tree has its own logo formation (see `createLogoFormation`), passed to the formation lookups
+// as one of its own formations rather than registered for the whole page.
+
+export interface LogoSettings {
+  density: number; // Share of the ornaments and lights that join the silhouette (0.1..1)
+  depth: number;   // Thickness of the formation (world units)
+  tint: boolean;   // Color the particles from the image while formed
+}
+
+export const DEFAULT_LOGO_SETTINGS: LogoSettings = { density: 0.8, depth: 4, tint: true };
+export const LOGO_FORMATION_ID = 'LOGO';
+export const LOGO_TYPES = ['image/png', 'image/svg+xml'];
+
+const STORAGE_KEY = 'noel-tree:logo';
+const SAMPLE_PX = 256;       // Longest side of the sampling canvas
+const MAX_WORLD_WIDTH = 90;
+const MAX_WORLD_HEIGHT = 60;
+const MAX_STORED_CHARS = 1_500_000; // Keep localStorage within quota
+
+interface StoredLogo { dataUrl: string; settings: LogoSettings }
+
+export interface LogoFormation {
+  formation: Formation;
+  isSet: () => boolean;
+  set: (image: HTMLImageElement, settings: LogoSettings) => void; // Lay the formation out again afterwards
+  clear: () => void;
+}
+
+const readDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error || new Error("File could not be read"));
+  reader.readAsDataURL(file);
+});
+
+const decodeImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Image could not be decoded"));
+  img.src = src;
+});
+
+export const readLogoFile = async (file: File): Promise<{ dataUrl: string; image: HTMLImageElement }> => {
+  if (!LOGO_TYPES.includes(file.type)) throw new Error(`Unsupported logo type "${file.type || file.name}", use PNG or SVG`);
+  const dataUrl = await readDataUrl(file);
+  return { dataUrl, image: await decodeImage(dataUrl) };
+};
+
+export const getLogoPoints = (image: HTMLImageElement, count: number, settings: LogoSettings): FormationLayout => {
+  // SVGs without an intrinsic size report 0, draw them square
+  const w0 = image.naturalWidth || SAMPLE_PX, h0 = image.naturalHeight || SAMPLE_PX;
+  const fit = SAMPLE_PX / Math.max(w0, h0);
+  const width = Math.max(1, Math.round(w0 * fit)), height = Math.max(1, Math.round(h0 * fit));
+
+  const cvs = document.createElement('canvas');
+  cvs.width = width; cvs.height = height;
+  const ctx = cvs.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { points: [] };
+  ctx.drawImage(image, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+
+  let transparent = false;
+  for (let i = 3; i < data.length; i += 4) if (data[i] < 128) { transparent = true; break; }
+  const [br, bg, bb] = [data[0], data[1], data[2]];
+  const isInk = (i: number) => transparent
+    ? data[i + 3] > 128
+    : Math.abs(data[i] - br) + Math.abs(data[i + 1] - bg) + Math.abs(data[i + 2] - bb) > 60;
+
+  const wanted = Math.round(count * Math.max(0.1, Math.min(1, settings.density)));
+  let ink = 0;
+  for (let i = 0; i < data.length; i += 4) if (isInk(i)) ink++;
+  const step = Math.max(1, Math.min(4, Math.floor(Math.sqrt(ink / Math.max(wanted, 1)))));
+
+  const pixels: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) if (isInk((y * width + x) * 4)) pixels.push(y * width + x);
+  }
+  if (!pixels.length || !wanted) return { points: [] };
+
+  const scale = Math.min(MAX_WORLD_WIDTH / width, MAX_WORLD_HEIGHT / height);
+  const points: THREE.Vector3[] = [];
+  const colors: THREE.Color[] = [];
+  // Spread evenly over the ink like the text formation, so thin strokes are not skipped
+  const stride = pixels.length / wanted;
+  for (let i = 0; i < wanted; i++) {
+    const px = pixels[Math.floor(i * stride) % pixels.length];
+    const x = px % width, y = Math.floor(px / width);
+    points.push(new THREE.Vector3(
+      (x + (Math.random() - 0.5) * step - width / 2) * scale,
+      -(y - height / 2) * scale + 5,
+      (Math.random() - 0.5) * settings.depth
+    ));
+    if (settings.tint) colors.push(new THREE.Color().setRGB(data[px * 4] / 255, data[px * 4 + 1] / 255, data[px * 4 + 2] / 255, THREE.SRGBColorSpace));
+  }
+  return { points, colors: settings.tint ? colors : undefined };
+};
+
+export const createLogoFormation = (): LogoFormation => {
+  let current: { image: HTMLImageElement; settings: LogoSettings } | null = null;
+  return {
+    formation: {
+      id: LOGO_FORMATION_ID, label: 'Logo', icon: '🏷️', key: '8', menu: true, faceCamera: true,
+      layout: count => current ? getLogoPoints(current.image, count, current.settings) : { points: [] },
+    },
+    isSet: () => !!current,
+    set: (image, settings) => { current = { image, settings }; },
+    clear: () => { current = null; },
+  };
+};
+
+export const forgetSavedLogo = () => localStorage.removeItem(STORAGE_KEY);
+
+export const saveLogo = (dataUrl: string, settings: LogoSettings) => {
+  try {
+    if (dataUrl.length > MAX_STORED_CHARS) { console.warn("Logo too large to remember across reloads"); localStorage.removeItem(STORAGE_KEY); return; }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ dataUrl, settings } as StoredLogo));
+  } catch (e) { console.warn("Logo not saved:", e); }
+};
+
+export const loadSavedLogo = async (): Promise<{ dataUrl: string; image: HTMLImageElement; settings: LogoSettings } | null> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as StoredLogo;
+    return { dataUrl: stored.dataUrl, image: await decodeImage(stored.dataUrl), settings: { ...DEFAULT_LOGO_SETTINGS, ...stored.settings } };
+  } catch (e) { console.warn("Saved logo unreadable:", e); return null; }
+};
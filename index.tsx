@@ -2,6 +2,8 @@ import React, { ErrorInfo, ReactNode, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { registerServiceWorker } from './serviceWorker';
+import { loadSceneConfig } from './sceneConfig';
 
 // --- BOOT LOGGING ---
 const updateLoader = (msg: string) => {
@@ -63,25 +65,32 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
   }
 }
 
+// --- OFFLINE SUPPORT ---
+registerServiceWorker();
+
 // --- MOUNT ---
 const rootElement = document.getElementById('root');
 if (rootElement) {
-  updateLoader("MOUNTING UI...");
-  try {
-    const root = createRoot(rootElement);
-    root.render(
-      <React.StrictMode>
-        <ErrorBoundary>
-            <App />
-        </ErrorBoundary>
-      </React.StrictMode>
-    );
-  } catch (e: any) {
-    console.error("Root render failed:", e);
-    const errorLog = document.getElementById('error-log');
-    if (errorLog) errorLog.innerText = `Fatal: Root Render Failed\n${e?.message || e}`;
-    updateLoader("RENDER FAILURE");
-  }
+  updateLoader("LOADING SCENE CONFIG...");
+  // Resolves with defaults on any failure; errors are passed on for the in-app alert
+  loadSceneConfig().then(({ config, errors }) => {
+    updateLoader("MOUNTING UI...");
+    try {
+      const root = createRoot(rootElement);
+      root.render(
+        <React.StrictMode>
+          <ErrorBoundary>
+              <App config={config} configErrors={errors} />
+          </ErrorBoundary>
+        </React.StrictMode>
+      );
+    } catch (e: any) {
+      console.error("Root render failed:", e);
+      const errorLog = document.getElementById('error-log');
+      if (errorLog) errorLog.innerText = `Fatal: Root Render Failed\n${e?.message || e}`;
+      updateLoader("RENDER FAILURE");
+    }
+  });
 } else {
     console.error("Root element not found");
     const errorLog = document.getElementById('error-log');
@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+
+// --- INSTANCED BATCHES ---
+// Draws every copy of a prototype (a single mesh or a group of meshes) with one InstancedMesh per
+// part, so hundreds of ornaments cost a handful of draw calls. Particles keep a detached Object3D
+// as their transform and the batch copies it into the instance matrices once per frame.
+// Tintable batches can also blend each instance towards its own color, by an amount shared by all
+// batches of one scene (see `createInstanceTint`).
+
+export interface InstancedBatch {
+  meshes: THREE.InstancedMesh[];
+  add: () => number; // Reserves the next instance, returns its index
+  setTransform: (index: number, transform: THREE.Object3D) => void;
+  setColorAt: (index: number, color: THREE.Color) => void;
+  setEmissiveAt: (index: number, intensity: number) => void; // Only with `emissive: true`
+  setTintAt: (index: number, color: THREE.Color | null) => void; // Only with `tint`, null keeps the own color
+  setVisibleFraction: (fraction: number) => void; // Draws only the first share of the instances
+  isVisible: (index: number) => boolean;
+  commit: () => void; // Flags everything written this frame for upload
+}
+
+export interface InstancedBatchOptions {
+  // Per-instance emissive intensity, also tinted by the instance color
+  emissive?: boolean;
+  // Per-instance tint color, blended in by the given amount
+  tint?: InstanceTint;
+}
+
+// Shader uniform: blend towards the instance tints (0 = own colors, 1 = tints), eased by the scene
+export interface InstanceTint { value: number }
+export const createInstanceTint = (): InstanceTint => ({ value: 0 });
+const TINT_GLOW = '0.3'; // Emissive strength of tinted, otherwise non-emissive instances
+
+const _m = new THREE.Matrix4();
+const _white = new THREE.Color(0xffffff);
+
+const patched = new WeakSet<THREE.Material>();
+
+// emissive: multiplies the material's emissive by a per-instance intensity and the instance color
+// tint: blends diffuse and emissive towards a per-instance color (alpha = how much)
+// Tint-only materials are patched in place so other code (themes) keeps driving their colors.
+const patchMaterial = (material: THREE.Material, emissive: boolean, tint: InstanceTint | undefined) => {
+  if (patched.has(material)) return;
+  patched.add(material);
+  let vsDecl = '', vsBody = '', fsDecl = '', fsColor = '', fsEmissive = '';
+  if (emissive) {
+    vsDecl += 'attribute float instanceEmissive;\nvarying float vInstanceEmissive;\n';
+    vsBody += 'vInstanceEmissive = instanceEmissive;\n';
+    fsDecl += 'varying float vInstanceEmissive;\n';
+    fsEmissive += 'totalEmissiveRadiance *= vInstanceEmissive;\n#ifdef USE_COLOR\ntotalEmissiveRadiance *= vColor;\n#endif\n';
+  }
+  if (tint) {
+    vsDecl += 'attribute vec4 instanceTint;\nvarying vec4 vInstanceTint;\n';
+    vsBody += 'vInstanceTint = instanceTint;\n';
+    fsDecl += 'uniform float instanceTintAmount;\nvarying vec4 vInstanceTint;\n';
+    fsColor += 'diffuseColor.rgb = mix(diffuseColor.rgb, vInstanceTint.rgb, vInstanceTint.a * instanceTintAmount);\n';
+    fsEmissive += `totalEmissiveRadiance = mix(totalEmissiveRadiance, vInstanceTint.rgb * ${emissive ? 'vInstanceEmissive' : TINT_GLOW}, vInstanceTint.a * instanceTintAmount);\n`;
+  }
+  material.onBeforeCompile = shader => {
+    if (tint) shader.uniforms.instanceTintAmount = tint;
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${vsDecl}`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>\n${vsBody}`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${fsDecl}`)
+      .replace('#include <color_fragment>', `#include <color_fragment>\n${fsColor}`)
+      .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>\n${fsEmissive}`);
+  };
+  material.customProgramCacheKey = () => `instance${emissive ? '-emissive' : ''}${tint ? '-tint' : ''}`;
+};
+
+export const createInstancedBatch = (proto: THREE.Object3D, capacity: number, options: InstancedBatchOptions = {}): InstancedBatch => {
+  proto.updateMatrixWorld(true);
+  const parts: { mesh: THREE.InstancedMesh; offset: THREE.Matrix4 }[] = [];
+  let emissiveAttr: THREE.InstancedBufferAttribute | null = null;
+  let tintAttr: THREE.InstancedBufferAttribute | null = null;
+  let tintDirty = false;
+
+  if (options.emissive) emissiveAttr = new THREE.InstancedBufferAttribute(new Float32Array(capacity).fill(1), 1);
+  if (options.tint) tintAttr = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 4), 4);
+
+  proto.traverse(obj => {
+    const src = obj as THREE.Mesh;
+    if (!src.isMesh) return;
+    let geometry = src.geometry;
+    let material = src.material as THREE.Material;
+    // Own geometry for the per-instance attributes, prototypes can share theirs between batches
+    if (emissiveAttr || tintAttr) geometry = geometry.clone();
+    if (emissiveAttr) geometry.setAttribute('instanceEmissive', emissiveAttr);
+    if (tintAttr) geometry.setAttribute('instanceTint', tintAttr);
+    if (emissiveAttr) {
+      // Own material too: the emissive patch must not leak to other users of the prototype
+      material = material.clone();
+      patchMaterial(material, true, options.tint);
+    } else if (tintAttr) {
+      patchMaterial(material, false, options.tint);
+    }
+    const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.count = 0;
+    // Instances move every frame, a bounding sphere computed once would cull them wrongly
+    mesh.frustumCulled = false;
+    // Allocate instanceColor before the first render so the shader is compiled with it
+    for (let i = 0; i < capacity; i++) mesh.setColorAt(i, _white);
+    parts.push({ mesh, offset: src.matrixWorld.clone() });
+  });
+
+  let count = 0;
+  let fraction = 1;
+  let visible = 0;
+  const updateVisible = () => {
+    visible = Math.ceil(count * fraction);
+    parts.forEach(p => { p.mesh.count = visible; });
+  };
+
+  return {
+    meshes: parts.map(p => p.mesh),
+    add: () => {
+      if (count >= capacity) throw new Error(`Instanced batch full (${capacity})`);
+      const index = count++;
+      updateVisible();
+      return index;
+    },
+    setTransform: (index, transform) => {
+      transform.updateMatrix();
+      parts.forEach(p => p.mesh.setMatrixAt(index, _m.multiplyMatrices(transform.matrix, p.offset)));
+    },
+    setColorAt: (index, color) => parts.forEach(p => p.mesh.setColorAt(index, color)),
+    setEmissiveAt: (index, intensity) => { if (emissiveAttr) emissiveAttr.setX(index, intensity); },
+    setTintAt: (index, color) => {
+      if (!tintAttr) return;
+      if (color) tintAttr.setXYZW(index, color.r, color.g, color.b, 1);
+      else tintAttr.setW(index, 0);
+      tintDirty = true;
+    },
+    // Instances are added in random tree order, so dropping the tail thins the tree evenly
+    setVisibleFraction: f => { fraction = Math.max(0, Math.min(1, f)); updateVisible(); },
+    isVisible: index => index < visible,
+    commit: () => {
+      parts.forEach(p => {
+        p.mesh.instanceMatrix.needsUpdate = true;
+        if (p.mesh.instanceColor) p.mesh.instanceColor.needsUpdate = true;
+      });
+      if (emissiveAttr) emissiveAttr.needsUpdate = true;
+      if (tintAttr && tintDirty) { tintAttr.needsUpdate = true; tintDirty = false; }
+    },
+  };
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import { FilesetResolver, HandLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import './index.css';
+import { getVisionAssetCandidates } from './visionAssets';
+import { classifyGesture } from './gestureClassifier';
+
+// --- LANDMARK CAPTURE ---
+// capture.html (dev only): records real HandLandmarker frames for tests/fixtures/gestureFrames.ts.
+// Pick a pose, hold it, and each capture keeps three frames a second apart; move and tilt the hand
+// between them. The entry is printed in the fixture's format, ready to paste.
+
+const POSES: { id: string; hint: string }[] = [
+  { id: 'PINCH', hint: 'Thumb and index tips touching, the other fingers up' },
+  { id: 'THUMBS_UP', hint: 'Fingers curled, thumb straight up' },
+  { id: 'FIST', hint: 'Fingers curled, thumb folded across them' },
+  { id: 'OPEN_PALM', hint: 'All fingers spread, thumb out to the side' },
+  { id: 'L_SHAPE', hint: 'Index up, thumb out to the side, the rest curled' },
+  { id: 'POINTING', hint: 'Index up with the thumb tucked in' },
+  { id: 'PEACE', hint: 'Index and middle up, thumb tucked in' },
+  { id: 'THUMBS_DOWN', hint: 'Fingers curled, thumb pointing down' },
+  { id: 'HALF_OPEN', hint: 'Relaxed hand, fingers half bent' },
+  { id: 'THUMB_PARTLY_OUT', hint: 'Index up, thumb only half out to the side' },
+  { id: 'PROFILE_VIEW', hint: 'Open hand turned side-on to the camera' },
+];
+
+const FRAME_COUNT = 3;
+const FRAME_GAP_MS = 1000;
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+const formatFrame = (l: NormalizedLandmark[]) => `[${l.map(p => `[${round(p.x)}, ${round(p.y)}, ${round(p.z)}]`).join(', ')}]`;
+const formatEntry = (pose: { id: string; hint: string }, frames: NormalizedLandmark[][]) =>
+  `  // ${pose.hint}\n  ${pose.id}: [\n${frames.map(f => `    ${formatFrame(f)},\n`).join('')}  ],\n`;
+
+const LandmarkCapturePage: React.FC = () => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const landmarkerRef = useRef<HandLandmarker | null>(null);
+  const latestRef = useRef<{ landmarks: NormalizedLandmark[]; hand: string } | null>(null);
+  const [status, setStatus] = useState('STARTING CAMERA...');
+  const [live, setLive] = useState('');
+  const [poseId, setPoseId] = useState(POSES[0].id);
+  const [countdown, setCountdown] = useState(0);
+  const [output, setOutput] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    let frameId = 0;
+    let stream: MediaStream | null = null;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480 } });
+        const video = videoRef.current;
+        if (!video || cancelled) return;
+        video.srcObject = stream;
+        await video.play();
+      } catch (e) {
+        setStatus('CAMERA BLOCKED'); console.warn('Camera failed:', e); return;
+      }
+
+      setStatus('LOADING MODEL...');
+      // The same assets and options as the display, so the frames match what it sees
+      for (const assets of await getVisionAssetCandidates()) {
+        try {
+          const vision = await FilesetResolver.forVisionTasks(assets.wasmUrl);
+          landmarkerRef.current = await HandLandmarker.createFromOptions(vision, { baseOptions: { modelAssetPath: assets.modelUrl, delegate: 'GPU' }, runningMode: 'VIDEO', numHands: 2 });
+          break;
+        } catch (e) { console.warn(`Vision assets (${assets.source}) failed:`, e); }
+      }
+      if (cancelled) { landmarkerRef.current?.close(); landmarkerRef.current = null; return; }
+      if (!landmarkerRef.current) { setStatus('MODEL FAILED'); return; }
+      setStatus('READY');
+
+      let lastVideoTime = -1;
+      const loop = () => {
+        const video = videoRef.current, landmarker = landmarkerRef.current;
+        if (video && landmarker && video.currentTime !== lastVideoTime) {
+          lastVideoTime = video.currentTime;
+          const result = landmarker.detectForVideo(video, performance.now());
+          const landmarks = result.landmarks[0];
+          latestRef.current = landmarks ? { landmarks, hand: result.handedness[0]?.[0]?.categoryName ?? '?' } : null;
+          const g = classifyGesture(landmarks);
+          setLive(landmarks ? `${latestRef.current!.hand} hand · ${g.gesture} ${g.confidence.toFixed(2)}` : 'NO HAND');
+        }
+        frameId = requestAnimationFrame(loop);
+      };
+      loop();
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach(t => t.stop());
+      landmarkerRef.current?.close();
+      landmarkerRef.current = null;
+    };
+  }, []);
+
+  const capture = async () => {
+    const pose = POSES.find(p => p.id === poseId)!;
+    const frames: NormalizedLandmark[][] = [];
+    for (let i = 0; i < FRAME_COUNT; i++) {
+      for (let s = 3; s > 0; s--) { setCountdown(s); await new Promise(r => setTimeout(r, FRAME_GAP_MS / 3)); }
+      // The first tracked hand; the live label shows which one MediaPipe took it for
+      const latest = latestRef.current;
+      if (latest) frames.push(latest.landmarks);
+    }
+    setCountdown(0);
+    if (frames.length < FRAME_COUNT) { setLive(`Lost the hand, got ${frames.length} of ${FRAME_COUNT} frames`); return; }
+    setOutput(prev => prev + formatEntry(pose, frames));
+  };
+
+  const copy = () => { navigator.clipboard?.writeText(output).catch(e => console.warn('Copy failed:', e)); };
+
+  return (
+    <div className="min-h-full flex flex-col gap-4 p-6 bg-black text-white font-mono text-xs">
+      <div className="flex items-center justify-between border-b border-accent-500/40 pb-3">
+        <span className="text-accent-400 text-lg font-bold uppercase tracking-[0.2em]" style={{ fontFamily: '"Cinzel", serif' }}>Landmark Capture</span>
+        <span className="tracking-widest text-white/60">{status}</span>
+      </div>
+
+      <div className="relative w-[640px] max-w-full">
+        <video ref={videoRef} playsInline muted className="w-full -scale-x-100 rounded border border-white/20" />
+        <span className="absolute top-2 left-2 px-2 py-1 rounded bg-black/60 text-accent-400">{live}</span>
+        {countdown > 0 && <span className="absolute inset-0 flex items-center justify-center text-6xl text-white/80">{countdown}</span>}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <select value={poseId} onChange={e => setPoseId(e.target.value)} className="px-2 py-1 bg-white/5 border border-white/20 rounded">
+          {POSES.map(p => <option key={p.id} value={p.id}>{p.id}</option>)}
+        </select>
+        <span className="text-white/60">{POSES.find(p => p.id === poseId)?.hint}</span>
+      </div>
+
+      <div className="flex gap-3">
+        <button onClick={capture} disabled={status !== 'READY' || countdown > 0} className="px-4 py-2 border border-accent-500/60 text-accent-400 rounded disabled:opacity-40">Capture {FRAME_COUNT} frames</button>
+        <button onClick={copy} disabled={!output} className="px-4 py-2 border border-white/40 text-white/80 rounded disabled:opacity-40">Copy</button>
+        <button onClick={() => setOutput('')} disabled={!output} className="px-4 py-2 border border-white/40 text-white/80 rounded disabled:opacity-40">Clear</button>
+      </div>
+
+      <textarea readOnly value={output} className="h-64 p-2 bg-white/5 border border-white/20 rounded text-[10px] text-white/80" />
+    </div>
+  );
+};
+
+const rootElement = document.getElementById('root');
+if (rootElement) createRoot(rootElement).render(<LandmarkCapturePage />);
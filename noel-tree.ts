@@ -0,0 +1,9 @@
+import './index.css';
+import { defineNoelTreeElement } from './customElement';
+
+// --- CUSTOM ELEMENT BUNDLE ---
+// Entry of `npm run build:element`: one script (React included) and one stylesheet that give any
+// page a <noel-tree> element.
+defineNoelTreeElement();
+
+export { NoelTreeElement, defineNoelTreeElement } from './customElement';
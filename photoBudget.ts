@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { Particle } from './types';
+import { getPhotosByTime } from './formations';
+import { loadPhoto, blobToCanvas } from './photoStore';
+
+// --- PHOTO TEXTURE BUDGET ---
+// Every polaroid owns a 512x632 texture (about 1.7 MB of GPU memory with mipmaps). Past the budget
+// the oldest photos are archived: their texture is swapped for a small copy while the full image
+// stays in IndexedDB, and it comes back when the photo is zoomed.
+
+const ARCHIVE_WIDTH = 160;
+
+// The polaroid texture lives on the front and back face material of every PHOTO mesh
+const getPhotoMaterial = (p: Particle): THREE.MeshStandardMaterial | null => {
+  const mats = (p.mesh as THREE.Mesh).material;
+  const front = Array.isArray(mats) ? mats[4] : mats;
+  return front instanceof THREE.MeshStandardMaterial ? front : null;
+};
+
+export const downscalePolaroid = (cvs: HTMLCanvasElement): HTMLCanvasElement => {
+  const small = document.createElement('canvas');
+  small.width = ARCHIVE_WIDTH; small.height = Math.round(cvs.height * ARCHIVE_WIDTH / cvs.width);
+  small.getContext('2d')?.drawImage(cvs, 0, 0, small.width, small.height);
+  return small;
+};
+
+const swapTexture = (p: Particle, cvs: HTMLCanvasElement) => {
+  const mat = getPhotoMaterial(p);
+  if (!mat) return;
+  const old = mat.map;
+  const tex = new THREE.CanvasTexture(cvs);
+  tex.colorSpace = THREE.SRGBColorSpace;
+  mat.map = tex; mat.emissiveMap = tex;
+  old?.dispose();
+};
+
+export const archivePhoto = (p: Particle) => {
+  const img = getPhotoMaterial(p)?.map?.image;
+  if (p.archived || !(img instanceof HTMLCanvasElement)) return;
+  swapTexture(p, downscalePolaroid(img));
+  p.archived = true;
+};
+
+// Brings the full image back from the photo store; resolves false when it is not there
+export const restorePhotoTexture = async (p: Particle): Promise<boolean> => {
+  if (!p.archived) return true;
+  if (!p.id) return false;
+  const rec = await loadPhoto(p.id);
+  if (!rec) return false;
+  const cvs = await blobToCanvas(rec.image);
+  if (p.archived) { swapTexture(p, cvs); p.archived = false; }
+  return true;
+};
+
+// Archives the oldest full-size photos beyond `max`; photos in `keep` (e.g. the zoomed one) are skipped
+export const enforcePhotoBudget = (particles: Particle[], max: number, keep: (Particle | null)[] = []): number => {
+  const full = getPhotosByTime(particles).filter(p => !p.archived);
+  let excess = full.length - max;
+  let archived = 0;
+  for (const p of full) {
+    if (excess <= 0) break;
+    if (keep.includes(p)) continue;
+    archivePhoto(p);
+    excess--; archived++;
+  }
+  return archived;
+};
+
+export const countFullPhotos = (particles: Particle[]) => particles.filter(p => p.isPhoto && !p.archived).length;
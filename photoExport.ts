@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+import { Particle } from './types';
+import { canvasToBlob, loadPhoto, blobToCanvas } from './photoStore';
+import { createZip, ZipEntry } from './zip';
+
+// --- PHOTO EXPORT ---
+
+// The polaroid canvas lives on the front face material of every PHOTO mesh
+export const getPhotoCanvas = (p: Particle): HTMLCanvasElement | null => {
+  const mats = (p.mesh as THREE.Mesh).material;
+  const front = Array.isArray(mats) ? mats[4] : mats;
+  const img = (front as THREE.MeshStandardMaterial | undefined)?.map?.image;
+  return img instanceof HTMLCanvasElement ? img : null;
+};
+
+// Archived photos only keep a small texture, exports read the stored original instead
+export const getFullPhotoCanvas = async (p: Particle): Promise<HTMLCanvasElement | null> => {
+  if (p.archived && p.id) {
+    const rec = await loadPhoto(p.id);
+    if (rec) return blobToCanvas(rec.image);
+  }
+  return getPhotoCanvas(p);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename;
+  document.body.appendChild(a); a.click(); a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const stamp = (d: Date) => `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+
+export const getPhotoFilename = (p: Particle, index: number) =>
+  `polaroid-${pad(index + 1)}-${stamp(new Date(p.createdAt || Date.now()))}.png`;
+
+export const exportPhotoPng = async (p: Particle, index: number) => {
+  const cvs = await getFullPhotoCanvas(p);
+  if (!cvs) throw new Error("Photo has no image data");
+  downloadBlob(await canvasToBlob(cvs, 'image/png'), getPhotoFilename(p, index));
+};
+
+export const exportGalleryZip = async (photos: Particle[]) => {
+  const entries: ZipEntry[] = [];
+  const manifest: { file: string; caption: string; capturedAt: string }[] = [];
+  for (let i = 0; i < photos.length; i++) {
+    const p = photos[i];
+    const cvs = await getFullPhotoCanvas(p);
+    if (!cvs) continue;
+    const date = new Date(p.createdAt || Date.now());
+    const name = getPhotoFilename(p, i);
+    const blob = await canvasToBlob(cvs, 'image/png');
+    entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()), date });
+    manifest.push({ file: name, caption: p.caption || '', capturedAt: date.toISOString() });
+  }
+  if (!entries.length) throw new Error("No photos to export");
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify({ exportedAt: new Date().toISOString(), photos: manifest }, null, 2)) });
+  downloadBlob(createZip(entries), `noel-gallery-${stamp(new Date())}.zip`);
+};
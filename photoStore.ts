@@ -0,0 +1,81 @@
+// --- PHOTO STORE ---
+// Keeps every captured polaroid in IndexedDB so the tree survives reloads and crashes.
+
+export interface StoredPhoto {
+  id: string;
+  image: Blob;       // Full polaroid texture (frame, picture and caption)
+  caption: string;
+  createdAt: number; // epoch ms
+  treePos: { x: number; y: number; z: number };
+}
+
+const DB_NAME = 'noel-tree';
+const DB_VERSION = 1;
+const STORE = 'photos';
+
+let _dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (_dbPromise) return _dbPromise;
+  _dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') return reject(new Error("IndexedDB unavailable"));
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // Allow a retry on the next call if opening failed (e.g. private mode)
+  _dbPromise.catch(() => { _dbPromise = null; });
+  return _dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const savePhoto = async (photo: StoredPhoto): Promise<void> => {
+  await run('readwrite', store => store.put(photo));
+};
+
+export const deletePhoto = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const loadPhoto = async (id: string): Promise<StoredPhoto | undefined> =>
+  run<StoredPhoto | undefined>('readonly', store => store.get(id));
+
+// Oldest first, so restored photos keep their capture order
+export const loadPhotos = async (): Promise<StoredPhoto[]> => {
+  const all = await run<StoredPhoto[]>('readonly', store => store.index('createdAt').getAll());
+  return all || [];
+};
+
+export const createPhotoId = (): string =>
+  `photo-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/jpeg', quality = 0.92): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error("Canvas encode failed"))), type, quality);
+  });
+
+// Decode a stored image back into a canvas so it can feed a CanvasTexture again
+export const blobToCanvas = async (blob: Blob): Promise<HTMLCanvasElement> => {
+  const bmp = await createImageBitmap(blob);
+  const cvs = document.createElement('canvas');
+  cvs.width = bmp.width; cvs.height = bmp.height;
+  cvs.getContext('2d')?.drawImage(bmp, 0, 0);
+  bmp.close();
+  return cvs;
+};
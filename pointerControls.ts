@@ -0,0 +1,102 @@
+import * as THREE from 'three';
+
+// --- POINTER / TOUCH CAMERA CONTROLS ---
+// Drag to orbit, wheel or two-finger pinch to zoom, double tap for the secondary action.
+
+export interface OrbitState {
+  theta: number;  // Horizontal angle around the tree (rad)
+  phi: number;    // Elevation (rad)
+  radius: number; // Distance from the orbit target
+}
+
+export const ORBIT_LIMITS = { minPhi: -0.6, maxPhi: 0.9, minRadius: 40, maxRadius: 160 };
+export const ORBIT_TARGET = new THREE.Vector3(0, 3, 0);
+
+export const clampOrbit = (o: OrbitState) => {
+  o.phi = Math.max(ORBIT_LIMITS.minPhi, Math.min(ORBIT_LIMITS.maxPhi, o.phi));
+  o.radius = Math.max(ORBIT_LIMITS.minRadius, Math.min(ORBIT_LIMITS.maxRadius, o.radius));
+};
+
+// Places the camera on the orbit sphere, looking at the target
+export const applyOrbit = (camera: THREE.PerspectiveCamera, o: OrbitState) => {
+  const cosPhi = Math.cos(o.phi);
+  camera.position.set(
+    ORBIT_TARGET.x + o.radius * cosPhi * Math.sin(o.theta),
+    ORBIT_TARGET.y + o.radius * Math.sin(o.phi),
+    ORBIT_TARGET.z + o.radius * cosPhi * Math.cos(o.theta)
+  );
+  camera.lookAt(ORBIT_TARGET);
+  camera.updateMatrixWorld();
+};
+
+const ROTATE_SPEED = 0.005;
+const WHEEL_SPEED = 0.05;
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP_PX = 8;
+
+export const attachOrbitControls = (el: HTMLElement, orbit: OrbitState, onDoubleTap?: () => void) => {
+  const pointers = new Map<number, { x: number; y: number }>();
+  let pinchDist = 0;
+  let downAt = { x: 0, y: 0 };
+  let lastTap = 0;
+
+  const onDown = (e: PointerEvent) => {
+    el.setPointerCapture(e.pointerId);
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.size === 1) downAt = { x: e.clientX, y: e.clientY };
+    if (pointers.size === 2) {
+      const [a, b] = [...pointers.values()];
+      pinchDist = Math.hypot(a.x - b.x, a.y - b.y);
+    }
+  };
+
+  const onMove = (e: PointerEvent) => {
+    const prev = pointers.get(e.pointerId);
+    if (!prev) return;
+    const cur = { x: e.clientX, y: e.clientY };
+    pointers.set(e.pointerId, cur);
+    if (pointers.size === 1) {
+      orbit.theta -= (cur.x - prev.x) * ROTATE_SPEED;
+      orbit.phi += (cur.y - prev.y) * ROTATE_SPEED;
+    } else if (pointers.size === 2) {
+      const [a, b] = [...pointers.values()];
+      const d = Math.hypot(a.x - b.x, a.y - b.y);
+      if (pinchDist > 0) orbit.radius *= pinchDist / d;
+      pinchDist = d;
+    }
+    clampOrbit(orbit);
+  };
+
+  const onUp = (e: PointerEvent) => {
+    if (!pointers.has(e.pointerId)) return;
+    pointers.delete(e.pointerId);
+    if (pointers.size < 2) pinchDist = 0;
+    // A tap is a press that barely moved
+    if (pointers.size === 0 && Math.hypot(e.clientX - downAt.x, e.clientY - downAt.y) < TAP_SLOP_PX) {
+      const now = performance.now();
+      if (now - lastTap < DOUBLE_TAP_MS) { lastTap = 0; onDoubleTap?.(); }
+      else lastTap = now;
+    }
+  };
+
+  const onWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    orbit.radius *= 1 + Math.sign(e.deltaY) * WHEEL_SPEED;
+    clampOrbit(orbit);
+  };
+
+  el.style.touchAction = 'none';
+  el.addEventListener('pointerdown', onDown);
+  el.addEventListener('pointermove', onMove);
+  el.addEventListener('pointerup', onUp);
+  el.addEventListener('pointercancel', onUp);
+  el.addEventListener('wheel', onWheel, { passive: false });
+
+  return () => {
+    el.removeEventListener('pointerdown', onDown);
+    el.removeEventListener('pointermove', onMove);
+    el.removeEventListener('pointerup', onUp);
+    el.removeEventListener('pointercancel', onUp);
+    el.removeEventListener('wheel', onWheel);
+  };
+};
@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { drawCaption } from './textFormation';
+
+// --- POLAROID ---
+// The texture every photo ornament wears: a square picture on cream paper with the caption and
+// capture time burned in underneath. Camera captures and photos added from code share it.
+
+export const POLAROID_WIDTH = 512;
+export const POLAROID_HEIGHT = 632;
+const MARGIN = 24;
+const PICTURE_FILTER = 'contrast(1.15) saturate(1.2) brightness(1.2)';
+
+export interface PolaroidOptions {
+  caption: string;
+  font: string;
+  date: Date;
+  mirror?: boolean; // Selfie camera frames are flipped to match the preview
+}
+
+// Center-crops `source` (sourceWidth x sourceHeight pixels) into the picture area
+export const drawPolaroid = (source: CanvasImageSource | null, sourceWidth: number, sourceHeight: number, { caption, font, date, mirror = false }: PolaroidOptions): HTMLCanvasElement => {
+  const cvs = document.createElement('canvas');
+  cvs.width = POLAROID_WIDTH; cvs.height = POLAROID_HEIGHT;
+  const ctx = cvs.getContext('2d');
+  if (!ctx) return cvs;
+
+  ctx.fillStyle = '#fdfbf7';
+  ctx.fillRect(0, 0, POLAROID_WIDTH, POLAROID_HEIGHT);
+
+  if (source && sourceWidth > 0 && sourceHeight > 0) {
+    const minDim = Math.min(sourceWidth, sourceHeight);
+    const sx = (sourceWidth - minDim) / 2, sy = (sourceHeight - minDim) / 2;
+    const imgSize = POLAROID_WIDTH - MARGIN * 2;
+    ctx.save();
+    ctx.filter = PICTURE_FILTER;
+    ctx.translate(MARGIN + imgSize / 2, MARGIN + imgSize / 2);
+    if (mirror) ctx.scale(-1, 1);
+    ctx.drawImage(source, sx, sy, minDim, minDim, -imgSize / 2, -imgSize / 2, imgSize, imgSize);
+    ctx.restore();
+  }
+
+  ctx.fillStyle = '#111';
+  drawCaption(ctx, caption, font, POLAROID_WIDTH / 2, POLAROID_WIDTH + 45, POLAROID_WIDTH - 48);
+  ctx.font = '400 18px Cinzel'; ctx.fillStyle = '#333';
+  const timeStr = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  ctx.fillText(`${date.toLocaleDateString()} • ${timeStr}`, POLAROID_WIDTH / 2, POLAROID_WIDTH + 85);
+  return cvs;
+};
+
+export const createPolaroidMesh = (cvs: HTMLCanvasElement): THREE.Mesh => {
+  const tex = new THREE.CanvasTexture(cvs);
+  tex.colorSpace = THREE.SRGBColorSpace;
+  const paperMat = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.9, metalness: 0.0 });
+  const photoMat = new THREE.MeshStandardMaterial({
+      color: 0xffffff, roughness: 0.5, metalness: 0.0,
+      map: tex,
+      emissive: 0x888888, emissiveMap: tex, emissiveIntensity: 0.2
+  });
+  return new THREE.Mesh(new THREE.BoxGeometry(6, 7.4, 0.1), [
+      paperMat, paperMat, paperMat, paperMat, photoMat, photoMat
+  ]);
+};
+
+// Decodes an image URL (same-origin, data/blob URL or CORS-enabled) for `drawPolaroid`
+export const loadPolaroidSource = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error(`Image could not be loaded: ${url.slice(0, 80)}`));
+  img.src = url;
+});
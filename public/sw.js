@@ -0,0 +1,103 @@
+// --- OFFLINE SERVICE WORKER ---
+// Precaches the app shell and the self-hosted MediaPipe assets, then serves:
+//   - MediaPipe WASM / model and web fonts: cache first (large, immutable)
+//   - Everything else from this origin: network first, cache as fallback
+//   - HEAD probes for the MediaPipe assets (see visionAssets.ts): answered from the cache
+const VERSION = 'noel-tree-v1';
+const SHELL_CACHE = `${VERSION}-shell`;
+const ASSET_CACHE = `${VERSION}-assets`;
+
+const scoped = (p) => new URL(p, self.registration.scope).href;
+
+const PRECACHE = [
+  './',
+  './index.html',
+  './manifest.json',
+  './scene-config.json',
+  './mediapipe/wasm/vision_wasm_internal.js',
+  './mediapipe/wasm/vision_wasm_internal.wasm',
+  './mediapipe/wasm/vision_wasm_nosimd_internal.js',
+  './mediapipe/wasm/vision_wasm_nosimd_internal.wasm',
+  './mediapipe/hand_landmarker.task',
+];
+
+const IMMUTABLE_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com', 'cdn.jsdelivr.net', 'storage.googleapis.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    // Add one by one: a missing optional asset (e.g. model not bundled) must not abort the install
+    await Promise.all(PRECACHE.map(p => cache.add(scoped(p)).catch(e => console.warn('[SW] Precache skipped', p, e))));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(k => !k.startsWith(VERSION)).map(k => caches.delete(k)));
+    await self.clients.claim();
+  })());
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (e) {
+    const cached = await caches.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    if (request.mode === 'navigate') {
+      const shell = await caches.match(scoped('./index.html'));
+      if (shell) return shell;
+    }
+    throw e;
+  }
+};
+
+// Caches only match GET requests, so look up the GET entry and answer with its headers alone
+const cachedHead = async (request) => {
+  const cached = await caches.match(request.url);
+  if (cached) return new Response(null, { status: cached.status, statusText: cached.statusText, headers: cached.headers });
+  return fetch(request);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method === 'HEAD' && url.origin === self.location.origin && url.pathname.includes('/mediapipe/')) {
+    event.respondWith(cachedHead(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(url.pathname.includes('/mediapipe/') ? cacheFirst(request) : networkFirst(request));
+  } else if (IMMUTABLE_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// The page reports the hashed bundles it already loaded before this worker took control
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type !== 'CACHE_URLS' || !Array.isArray(data.urls)) return;
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache =>
+    Promise.all(data.urls.map(u => cache.add(u).catch(() => undefined)))
+  ));
+});
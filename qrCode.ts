@@ -0,0 +1,222 @@
+// --- QR CODE ---
+// Minimal QR encoder for the guest upload link: byte mode, error correction level M, versions
+// 1-10 (up to 213 bytes), mask chosen by the standard penalty rules minus the finder-lookalike
+// rule. Follows the structure of the ISO/IEC 18004 reference algorithm.
+
+const MAX_VERSION = 10;
+// Level M, indexed by version
+const ECC_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const FORMAT_BITS_M = 0;
+
+const getBit = (x: number, i: number) => ((x >>> i) & 1) !== 0;
+
+const rawDataModules = (ver: number) => {
+  let result = (16 * ver + 128) * ver + 64;
+  if (ver >= 2) {
+    const numAlign = Math.floor(ver / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (ver >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (ver: number) => Math.floor(rawDataModules(ver) / 8) - ECC_PER_BLOCK[ver] * NUM_BLOCKS[ver];
+
+const alignmentPositions = (ver: number, size: number): number[] => {
+  if (ver === 1) return [];
+  const numAlign = Math.floor(ver / 7) + 2;
+  const step = Math.ceil((ver * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// --- REED-SOLOMON over GF(2^8) with the 0x11D polynomial ---
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  }
+  return result;
+};
+
+const addEccAndInterleave = (data: number[], ver: number): number[] => {
+  const numBlocks = NUM_BLOCKS[ver], blockEccLen = ECC_PER_BLOCK[ver];
+  const rawCodewords = Math.floor(rawDataModules(ver) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = rsDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of the short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+// --- MATRIX ---
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  x => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+const buildMatrix = (ver: number, codewords: number[], mask: number): boolean[][] => {
+  const size = ver * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => { modules[y][x] = dark; isFunction[y][x] = true; };
+
+  for (let i = 0; i < size; i++) { set(6, i, i % 2 === 0); set(i, 6, i % 2 === 0); }
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) for (let dx = -4; dx <= 4; dx++) {
+      const x = cx + dx, y = cy + dy, dist = Math.max(Math.abs(dx), Math.abs(dy));
+      if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+    }
+  });
+  const align = alignmentPositions(ver, size);
+  align.forEach((ay, i) => align.forEach((ax, j) => {
+    // Not on top of the three finder patterns
+    if ((i === 0 && j === 0) || (i === 0 && j === align.length - 1) || (i === align.length - 1 && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) for (let dx = -2; dx <= 2; dx++) set(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+  }));
+
+  // Format information (error correction level and mask), BCH(15,5) protected
+  const formatData = (FORMAT_BITS_M << 3) | mask;
+  let rem = formatData;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const format = ((formatData << 10) | rem) ^ 0x5412;
+  for (let i = 0; i <= 5; i++) set(8, i, getBit(format, i));
+  set(8, 7, getBit(format, 6)); set(8, 8, getBit(format, 7)); set(7, 8, getBit(format, 8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, getBit(format, i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, getBit(format, i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, getBit(format, i));
+  set(8, size - 8, true);
+
+  // Version information, BCH(18,6) protected
+  if (ver >= 7) {
+    let vrem = ver;
+    for (let i = 0; i < 12; i++) vrem = (vrem << 1) ^ ((vrem >>> 11) * 0x1f25);
+    const bits = (ver << 12) | vrem;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3), b = Math.floor(i / 3);
+      set(a, b, getBit(bits, i)); set(b, a, getBit(bits, i));
+    }
+  }
+
+  // Data in the zigzag column pairs, right to left, skipping the vertical timing column
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (isFunction[y][x] || bit >= codewords.length * 8) continue;
+        modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+        bit++;
+      }
+    }
+  }
+
+  const maskFn = MASKS[mask];
+  for (let y = 0; y < size; y++) for (let x = 0; x < size; x++) {
+    if (!isFunction[y][x] && maskFn(x, y)) modules[y][x] = !modules[y][x];
+  }
+  return modules;
+};
+
+// Runs of five or more, 2x2 blocks and dark/light balance
+const penalty = (m: boolean[][]) => {
+  const size = m.length;
+  let score = 0, dark = 0;
+  for (let a = 0; a < size; a++) {
+    let runRow = 1, runCol = 1;
+    for (let b = 1; b < size; b++) {
+      if (m[a][b] === m[a][b - 1]) { runRow++; if (runRow === 5) score += 3; else if (runRow > 5) score++; } else runRow = 1;
+      if (m[b][a] === m[b - 1][a]) { runCol++; if (runCol === 5) score += 3; else if (runCol > 5) score++; } else runCol = 1;
+    }
+  }
+  for (let y = 0; y < size; y++) for (let x = 0; x < size; x++) {
+    if (m[y][x]) dark++;
+    if (x < size - 1 && y < size - 1 && m[y][x] === m[y][x + 1] && m[y][x] === m[y + 1][x] && m[y][x] === m[y + 1][x + 1]) score += 3;
+  }
+  return score + Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+};
+
+// Rows of modules, true = dark, without the quiet zone
+export const encodeQr = (text: string): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  let ver = 1;
+  const bitsNeeded = (v: number) => 4 + (v < 10 ? 8 : 16) + bytes.length * 8;
+  while (ver <= MAX_VERSION && bitsNeeded(ver) > dataCodewords(ver) * 8) ver++;
+  if (ver > MAX_VERSION) throw new Error(`Text too long for a QR code (${bytes.length} bytes)`);
+
+  const capacity = dataCodewords(ver) * 8;
+  const bits: number[] = [];
+  const push = (value: number, len: number) => { for (let i = len - 1; i >= 0; i--) bits.push((value >>> i) & 1); };
+  push(0x4, 4); // Byte mode
+  push(bytes.length, ver < 10 ? 8 : 16);
+  bytes.forEach(b => push(b, 8));
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+  const codewords = addEccAndInterleave(data, ver);
+
+  let best: boolean[][] = [], bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const m = buildMatrix(ver, codewords, mask);
+    const score = penalty(m);
+    if (score < bestScore) { best = m; bestScore = score; }
+  }
+  return best;
+};
+
+// SVG path of the dark modules, one unit per module, offset by the quiet zone
+export const qrPath = (modules: boolean[][], quiet = 4) =>
+  modules.map((row, y) => row.map((dark, x) => dark ? `M${x + quiet},${y + quiet}h1v1h-1z` : '').join('')).join('');
@@ -0,0 +1,107 @@
+// --- QUALITY GOVERNOR ---
+// Watches real frame times and moves between quality tiers: down quickly when frames run long,
+// back up slowly once there has been headroom for a while. Tier 0 is the best quality.
+// A tier that just failed is retried only after a cooldown that doubles with every failure, so a
+// device on the edge of two tiers settles on the lower one instead of flipping between them.
+// When stepping down leaves frame times unchanged, they are the display's refresh interval rather
+// than load: a 30 Hz screen (or a browser throttled to 30 fps) never beats ~33 ms at any tier.
+
+export interface QualityTier {
+  name: string;
+  pixelRatio: number;       // Upper bound, never above the device pixel ratio
+  bloomScale: number;       // Bloom render target size relative to the canvas
+  snowFraction: number;     // Share of snowflakes drawn
+  particleFraction: number; // Share of instanced ornaments, lights and stars drawn
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'ULTRA', pixelRatio: 2, bloomScale: 1, snowFraction: 1, particleFraction: 1 },
+  { name: 'HIGH', pixelRatio: 1.5, bloomScale: 0.75, snowFraction: 0.75, particleFraction: 1 },
+  { name: 'MEDIUM', pixelRatio: 1, bloomScale: 0.5, snowFraction: 0.5, particleFraction: 0.75 },
+  { name: 'LOW', pixelRatio: 0.75, bloomScale: 0.35, snowFraction: 0.25, particleFraction: 0.5 },
+];
+
+export interface GovernorOptions {
+  windowMs: number;      // Frame times are averaged over windows of this length
+  downshiftMs: number;   // Average frame time above this steps quality down (~45 fps)
+  upshiftMs: number;     // Average frame time below this counts as headroom (~55 fps)
+  upshiftWindows: number; // Consecutive windows with headroom needed before stepping up
+  settleMs: number;      // Ignore frames for this long after a change (shader and target rebuilds)
+  maxSampleMs: number;   // Longer frames are hitches or a hidden tab, not load
+  retryMs: number;       // Cooldown before retrying a tier after its first failure, doubled per failure
+  maxRetryMs: number;    // Longest cooldown
+  baseRefreshMs: number; // Refresh interval the frame time thresholds are tuned for (60 Hz)
+}
+
+export const DEFAULT_GOVERNOR_OPTIONS: GovernorOptions = {
+  windowMs: 2000,
+  downshiftMs: 22,
+  upshiftMs: 18,
+  upshiftWindows: 3,
+  settleMs: 1500,
+  maxSampleMs: 250,
+  retryMs: 10000,
+  maxRetryMs: 160000,
+  baseRefreshMs: 1000 / 60,
+};
+
+export interface QualityGovernor {
+  // Feed one frame; returns the new tier index when the tier changes, otherwise null
+  sample: (frameMs: number, now: number) => number | null;
+  readonly tier: number;
+}
+
+export const createQualityGovernor = (initialTier = 0, options: GovernorOptions = DEFAULT_GOVERNOR_OPTIONS): QualityGovernor => {
+  let tier = Math.max(0, Math.min(QUALITY_TIERS.length - 1, initialTier));
+  let windowStart = -1;
+  let total = 0;
+  let frames = 0;
+  let headroomWindows = 0;
+  let settleUntil = 0;
+  let refreshMs = options.baseRefreshMs;
+  let failedAverage = 0; // Average of the window that caused the last downshift, until the next window
+  const failures = QUALITY_TIERS.map(() => 0);
+  const retryAt = QUALITY_TIERS.map(() => 0);
+
+  const change = (next: number, now: number) => {
+    if (next > tier) {
+      failures[tier]++;
+      retryAt[tier] = now + Math.min(options.retryMs * 2 ** (failures[tier] - 1), options.maxRetryMs);
+    }
+    tier = next;
+    headroomWindows = 0;
+    settleUntil = now + options.settleMs;
+    windowStart = -1;
+    return tier;
+  };
+
+  const sample = (frameMs: number, now: number): number | null => {
+    if (now < settleUntil || frameMs > options.maxSampleMs) return null;
+    if (windowStart < 0) { windowStart = now; total = 0; frames = 0; }
+    total += frameMs; frames++;
+    if (now - windowStart < options.windowMs) return null;
+
+    const average = total / frames;
+    windowStart = -1;
+    // Stepping down did not make frames faster: the time goes to the display's refresh (or to work
+    // no tier controls), so that is the full speed and the thresholds stretch to it
+    if (failedAverage && average > failedAverage * 0.9) {
+      refreshMs = Math.max(refreshMs, average);
+      // The failure was the display's, so the better tier may come straight back
+      failures[tier - 1] = 0; retryAt[tier - 1] = 0;
+    }
+    failedAverage = 0;
+    const scale = refreshMs / options.baseRefreshMs;
+
+    if (average > options.downshiftMs * scale) {
+      if (tier >= QUALITY_TIERS.length - 1) return null;
+      failedAverage = average;
+      return change(tier + 1, now);
+    }
+    headroomWindows = average < options.upshiftMs * scale ? headroomWindows + 1 : 0;
+    if (headroomWindows >= options.upshiftWindows && tier > 0 && now >= retryAt[tier - 1]) return change(tier - 1, now);
+    return null;
+  };
+
+  return { sample, get tier() { return tier; } };
+};
@@ -0,0 +1,154 @@
+// --- SCENE RECORDER ---
+// Records what the renderer shows, bloom included, to a video clip. Each rendered frame is copied
+// onto a 2D canvas right after `composer.render()` (a WebGL canvas cannot be read later in the
+// frame), and that canvas is streamed into a MediaRecorder. Stopping plays a short branded end
+// card before the file is finalized.
+
+export interface SceneRecording {
+  blob: Blob;
+  url: string;        // Object URL, revoke when done
+  fileName: string;
+  durationMs: number; // Including the end card
+}
+
+export interface EndCard {
+  title: string;
+  subtitle: string;
+  font: string;   // CSS font-family list
+  accent: string; // CSS color
+}
+
+export interface SceneRecorderOptions {
+  width: number;
+  height: number;
+  audio?: MediaStream | null;
+  endCard: EndCard;
+  maxMs?: number;
+  onTick?: (elapsedMs: number) => void;   // About once a second while filming
+  onEndCard?: () => void;                 // Filming stopped, the end card is playing
+  onDone: (recording: SceneRecording) => void;
+  onError: (error: Error) => void;
+}
+
+export interface SceneRecorder {
+  drawFrame: (source: HTMLCanvasElement) => void;
+  stop: () => void;   // Ends filming and plays the end card
+  cancel: () => void; // Discards everything, e.g. on unmount
+}
+
+export const MAX_RECORDING_MS = 30000;
+const END_CARD_MS = 2500;
+const FADE_MS = 600;
+const FPS = 30;
+const MAX_SIDE = 1920;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+
+// WebM where the browser can; Safari only records MP4
+const pickMimeType = () => MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t)) ?? '';
+
+const drawEndCard = (ctx: CanvasRenderingContext2D, lastFrame: HTMLCanvasElement, card: EndCard, t: number) => {
+  const { width: w, height: h } = ctx.canvas;
+  const fade = Math.min(1, t / FADE_MS);
+  ctx.globalAlpha = 1;
+  ctx.drawImage(lastFrame, 0, 0, w, h);
+  ctx.fillStyle = `rgba(0, 0, 0, ${0.8 * fade})`;
+  ctx.fillRect(0, 0, w, h);
+
+  ctx.globalAlpha = fade;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const unit = Math.min(w, h);
+  ctx.shadowColor = card.accent;
+  ctx.shadowBlur = unit * 0.04;
+  ctx.fillStyle = card.accent;
+  ctx.font = `bold ${Math.round(unit * 0.1)}px ${card.font}`;
+  ctx.fillText(card.title, w / 2, h * 0.44, w * 0.9);
+  ctx.shadowBlur = 0;
+
+  ctx.strokeStyle = card.accent;
+  ctx.lineWidth = Math.max(1, unit * 0.003);
+  ctx.beginPath();
+  ctx.moveTo(w / 2 - unit * 0.25, h * 0.54); ctx.lineTo(w / 2 + unit * 0.25, h * 0.54);
+  ctx.stroke();
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.font = `${Math.round(unit * 0.04)}px ${card.font}`;
+  ctx.fillText(card.subtitle, w / 2, h * 0.61, w * 0.9);
+  ctx.globalAlpha = 1;
+};
+
+export const startSceneRecording = (opts: SceneRecorderOptions): SceneRecorder => {
+  if (!isRecordingSupported()) throw new Error("This browser cannot record video");
+  const scale = Math.min(1, MAX_SIDE / Math.max(opts.width, opts.height));
+  const canvas = document.createElement('canvas');
+  // Encoders want even dimensions
+  canvas.width = Math.max(2, Math.round(opts.width * scale / 2) * 2);
+  canvas.height = Math.max(2, Math.round(opts.height * scale / 2) * 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create the recording canvas");
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const stream = canvas.captureStream(FPS);
+  opts.audio?.getAudioTracks().forEach(t => stream.addTrack(t));
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(stream, { ...(mimeType ? { mimeType } : {}), videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  const startedAt = performance.now();
+  const maxMs = opts.maxMs ?? MAX_RECORDING_MS;
+  let phase: 'FILMING' | 'END_CARD' | 'DONE' = 'FILMING';
+  let endCardTimer = 0;
+  let cancelled = false;
+
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.onerror = () => { finish(); opts.onError(new Error("Recording failed")); };
+  recorder.onstop = () => {
+    // Audio tracks belong to the audio engine and keep playing; only the video track ends here
+    stream.getVideoTracks().forEach(t => t.stop());
+    if (cancelled) return;
+    const type = recorder.mimeType || mimeType || 'video/webm';
+    const blob = new Blob(chunks, { type });
+    if (blob.size === 0) { opts.onError(new Error("The recording is empty")); return; }
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    opts.onDone({ blob, url: URL.createObjectURL(blob), fileName: `noel-tree-${stamp}.${type.includes('mp4') ? 'mp4' : 'webm'}`, durationMs: performance.now() - startedAt });
+  };
+
+  const ticker = window.setInterval(() => {
+    const elapsed = performance.now() - startedAt;
+    if (phase === 'FILMING') { opts.onTick?.(elapsed); if (elapsed >= maxMs) stop(); }
+  }, 250);
+
+  const finish = () => {
+    phase = 'DONE';
+    clearInterval(ticker);
+    clearInterval(endCardTimer);
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  const stop = () => {
+    if (phase !== 'FILMING') return;
+    phase = 'END_CARD';
+    opts.onEndCard?.();
+    const lastFrame = document.createElement('canvas');
+    lastFrame.width = canvas.width; lastFrame.height = canvas.height;
+    lastFrame.getContext('2d')?.drawImage(canvas, 0, 0);
+    const cardStart = performance.now();
+    endCardTimer = window.setInterval(() => {
+      const t = performance.now() - cardStart;
+      drawEndCard(ctx, lastFrame, opts.endCard, t);
+      if (t >= END_CARD_MS) finish();
+    }, 1000 / FPS);
+  };
+
+  recorder.start(1000);
+
+  return {
+    drawFrame: source => { if (phase === 'FILMING') ctx.drawImage(source, 0, 0, canvas.width, canvas.height); },
+    stop,
+    cancel: () => { cancelled = true; finish(); },
+  };
+};
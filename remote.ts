@@ -0,0 +1,155 @@
+import { AppMode } from './types';
+
+// --- REMOTE CONTROL ---
+// A phone (controller.html) steers the display the same way a hand would. Messages travel over a
+// BroadcastChannel when both pages run in one browser, or through the local WebSocket relay
+// (scripts/remote-relay.mjs) when a `?remote=ws://host:8787` URL is given to both pages.
+// Controllers announce themselves with a heartbeat; the display forgets them when it stops.
+
+export type RemoteMode = AppMode.SCATTER | AppMode.TREE | AppMode.TEXT;
+export const REMOTE_MODES: RemoteMode[] = [AppMode.SCATTER, AppMode.TREE, AppMode.TEXT];
+
+export type RemoteCommand =
+  | { type: 'mode'; mode: RemoteMode }
+  | { type: 'snap' }
+  | { type: 'recall' }
+  | { type: 'rotate'; speed: number }; // -1..1, scaled to the hand rotation range by the display
+
+type RemoteMessage =
+  | { kind: 'hello'; from: string; name: string }
+  | { kind: 'bye'; from: string }
+  | { kind: 'command'; from: string; command: RemoteCommand };
+
+export interface RemoteController { id: string; name: string }
+
+export type RemoteStatus = 'CONNECTING' | 'OPEN' | 'CLOSED';
+
+const CHANNEL_NAME = 'noel-tree:remote';
+const HEARTBEAT_MS = 2000;
+const CONTROLLER_TIMEOUT_MS = 6000;
+const RECONNECT_MS = 3000;
+const ROTATE_RANGE = 0.0175; // rad per 60 Hz frame at full deflection, same range as a hand at the edge
+
+export const getRemoteUrl = (search = window.location.search): string | null => new URLSearchParams(search).get('remote');
+
+// Matches the hand mapping in the prediction loop: (0.5 - x) * 0.035 for x in 0..1
+export const remoteRotationSpeed = (speed: number) => Math.max(-1, Math.min(1, speed)) * ROTATE_RANGE;
+
+// --- TRANSPORT ---
+// Same interface for both carriers; the WebSocket one reconnects on its own
+interface Transport {
+  send: (msg: RemoteMessage) => void;
+  close: () => void;
+}
+
+const isRemoteMessage = (v: unknown): v is RemoteMessage => {
+  const m = v as RemoteMessage | null;
+  return !!m && typeof m === 'object' && typeof m.from === 'string' && (m.kind === 'hello' || m.kind === 'bye' || m.kind === 'command');
+};
+
+const isRemoteCommand = (c: unknown): c is RemoteCommand => {
+  const cmd = c as RemoteCommand | null;
+  if (!cmd || typeof cmd !== 'object') return false;
+  switch (cmd.type) {
+    case 'mode': return REMOTE_MODES.includes(cmd.mode);
+    case 'snap': case 'recall': return true;
+    case 'rotate': return typeof cmd.speed === 'number' && Number.isFinite(cmd.speed);
+    default: return false;
+  }
+};
+
+const openTransport = (url: string | null, onMessage: (msg: RemoteMessage) => void, onStatus: (status: RemoteStatus) => void): Transport => {
+  if (!url) {
+    if (typeof BroadcastChannel === 'undefined') { onStatus('CLOSED'); return { send: () => {}, close: () => {} }; }
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = e => { if (isRemoteMessage(e.data)) onMessage(e.data); };
+    onStatus('OPEN');
+    return { send: msg => channel.postMessage(msg), close: () => { channel.close(); onStatus('CLOSED'); } };
+  }
+
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retry = 0;
+  const connect = () => {
+    onStatus('CONNECTING');
+    socket = new WebSocket(url);
+    socket.onopen = () => onStatus('OPEN');
+    socket.onmessage = e => {
+      try { const msg = JSON.parse(e.data); if (isRemoteMessage(msg)) onMessage(msg); }
+      catch { /* Not ours, the relay forwards everything */ }
+    };
+    socket.onclose = () => {
+      onStatus('CLOSED');
+      if (!closed) retry = window.setTimeout(connect, RECONNECT_MS);
+    };
+  };
+  connect();
+  return {
+    send: msg => { if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg)); },
+    close: () => { closed = true; clearTimeout(retry); socket?.close(); },
+  };
+};
+
+// --- DISPLAY SIDE ---
+export interface RemoteReceiver { close: () => void }
+
+export const createRemoteReceiver = (
+  url: string | null,
+  onCommand: (command: RemoteCommand, from: RemoteController) => void,
+  onControllers: (controllers: RemoteController[]) => void,
+  onStatus: (status: RemoteStatus) => void = () => {},
+): RemoteReceiver => {
+  const seen = new Map<string, { name: string; at: number }>();
+  const report = () => onControllers([...seen].map(([id, c]) => ({ id, name: c.name })));
+
+  const transport = openTransport(url, msg => {
+    if (msg.kind === 'bye') { if (seen.delete(msg.from)) report(); return; }
+    const known = seen.get(msg.from);
+    if (msg.kind === 'hello') {
+      seen.set(msg.from, { name: String(msg.name).slice(0, 40) || 'Phone', at: Date.now() });
+      if (!known || known.name !== msg.name) report();
+      return;
+    }
+    // Commands from controllers that never said hello are ignored until their first heartbeat
+    if (!known || !isRemoteCommand(msg.command)) return;
+    known.at = Date.now();
+    onCommand(msg.command, { id: msg.from, name: known.name });
+  }, onStatus);
+
+  const sweep = window.setInterval(() => {
+    const now = Date.now();
+    let changed = false;
+    seen.forEach((c, id) => { if (now - c.at > CONTROLLER_TIMEOUT_MS) { seen.delete(id); changed = true; } });
+    if (changed) report();
+  }, HEARTBEAT_MS);
+
+  return { close: () => { clearInterval(sweep); transport.close(); } };
+};
+
+// --- CONTROLLER SIDE ---
+export interface RemoteSender {
+  send: (command: RemoteCommand) => void;
+  close: () => void;
+}
+
+export const createRemoteSender = (url: string | null, name: string, onStatus: (status: RemoteStatus) => void): RemoteSender => {
+  const from = `remote-${Math.random().toString(36).slice(2, 10)}`;
+  let transport: Transport | null = null;
+  const hello = () => transport?.send({ kind: 'hello', from, name });
+  // Say hello as soon as a (re)connected socket opens instead of waiting for the next heartbeat
+  transport = openTransport(url, () => {}, status => { onStatus(status); if (status === 'OPEN') hello(); });
+  hello();
+  const heartbeat = window.setInterval(hello, HEARTBEAT_MS);
+  const onHide = () => transport?.send({ kind: 'bye', from });
+  window.addEventListener('pagehide', onHide);
+
+  return {
+    send: command => transport?.send({ kind: 'command', from, command }),
+    close: () => {
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', onHide);
+      onHide();
+      transport?.close();
+    },
+  };
+};
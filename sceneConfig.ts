@@ -0,0 +1,169 @@
+import { ORBIT_LIMITS } from './pointerControls';
+
+// --- SCENE CONFIG ---
+// Event-tweakable scene values. Loaded at startup from `scene-config.json` next to index.html,
+// then overridden by URL query parameters using the same dotted paths, e.g.
+//   ?tree.height=60&counts.snow=1500&palette.gold=%23ffd27f&camera.zoomOffset=0,2,-25
+// Invalid entries keep their default and are reported back as readable errors.
+
+export type Vec3Tuple = [number, number, number];
+
+export interface SceneConfig {
+  tree: { height: number; baseRadius: number; scatterRadius: number };
+  counts: { ornaments: number; lights: number; stars: number; snow: number; photoTextures: number }; // photoTextures: full-size photos kept on the GPU
+  palette: { green: number; gold: number; red: number; background: number; bear: number; lights: number[] };
+  fogDensity: number;
+  bloom: { strength: number; radius: number; threshold: number };
+  camera: { distance: number; zoomOffset: Vec3Tuple; previewOffset: Vec3Tuple }; // Offsets are camera-space
+  audio: { playlist: string[]; reactivity: number }; // Song URLs relative to index.html; 0 keeps the lights still
+}
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+  tree: { height: 55, baseRadius: 22, scatterRadius: 75 },
+  counts: { ornaments: 600, lights: 600, stars: 150, snow: 3500, photoTextures: 60 },
+  palette: { green: 0x1a4a2a, gold: 0xffbf00, red: 0xc2002b, background: 0x010201, bear: 0x7a4a1b, lights: [0xffd700, 0xffaa00, 0xfff0b3, 0xffcc00] },
+  fogDensity: 0.007,
+  bloom: { strength: 0.5, radius: 0.5, threshold: 0.85 },
+  camera: { distance: 85, zoomOffset: [0, 2, -30], previewOffset: [0, 0, -13] },
+  audio: { playlist: [], reactivity: 1 },
+};
+
+export const SCENE_CONFIG_URL = './scene-config.json';
+
+type FieldSpec =
+  | { kind: 'number'; min: number; max: number; integer?: boolean }
+  | { kind: 'color' }
+  | { kind: 'colors' }
+  | { kind: 'vec3'; min: number; max: number }
+  | { kind: 'strings' };
+
+const SCHEMA: Record<string, FieldSpec> = {
+  'tree.height': { kind: 'number', min: 10, max: 150 },
+  'tree.baseRadius': { kind: 'number', min: 2, max: 80 },
+  'tree.scatterRadius': { kind: 'number', min: 20, max: 200 },
+  'counts.ornaments': { kind: 'number', min: 0, max: 3000, integer: true },
+  'counts.lights': { kind: 'number', min: 0, max: 5000, integer: true },
+  'counts.stars': { kind: 'number', min: 0, max: 2000, integer: true },
+  'counts.snow': { kind: 'number', min: 0, max: 20000, integer: true },
+  'counts.photoTextures': { kind: 'number', min: 1, max: 500, integer: true },
+  'palette.green': { kind: 'color' },
+  'palette.gold': { kind: 'color' },
+  'palette.red': { kind: 'color' },
+  'palette.background': { kind: 'color' },
+  'palette.bear': { kind: 'color' },
+  'palette.lights': { kind: 'colors' },
+  'fogDensity': { kind: 'number', min: 0, max: 0.05 },
+  'bloom.strength': { kind: 'number', min: 0, max: 3 },
+  'bloom.radius': { kind: 'number', min: 0, max: 1 },
+  'bloom.threshold': { kind: 'number', min: 0, max: 1 },
+  'camera.distance': { kind: 'number', min: ORBIT_LIMITS.minRadius, max: ORBIT_LIMITS.maxRadius },
+  'camera.zoomOffset': { kind: 'vec3', min: -200, max: 200 },
+  'camera.previewOffset': { kind: 'vec3', min: -200, max: 200 },
+  'audio.playlist': { kind: 'strings' },
+  'audio.reactivity': { kind: 'number', min: 0, max: 3 },
+};
+
+const describe = (spec: FieldSpec) => {
+  switch (spec.kind) {
+    case 'number': return `${spec.integer ? 'a whole number' : 'a number'} between ${spec.min} and ${spec.max}`;
+    case 'color': return 'a color like "#ffbf00"';
+    case 'colors': return 'a non-empty list of colors like ["#ffd700", "#ffaa00"]';
+    case 'vec3': return `three numbers between ${spec.min} and ${spec.max}, like [0, 2, -30]`;
+    case 'strings': return 'a list of file names or URLs like ["music/carol.mp3"]';
+  }
+};
+
+const parseNumber = (v: unknown): number => typeof v === 'number' ? v : typeof v === 'string' && v.trim() !== '' ? Number(v) : NaN;
+
+const parseColor = (v: unknown): number | null => {
+  if (typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= 0xffffff) return v;
+  if (typeof v !== 'string') return null;
+  const m = v.trim().match(/^(?:#|0x)?([0-9a-f]{6})$/i);
+  return m ? parseInt(m[1], 16) : null;
+};
+
+// Query strings carry lists as comma separated text, JSON as arrays
+const toList = (v: unknown): unknown[] | null => Array.isArray(v) ? v : typeof v === 'string' ? v.split(',') : null;
+
+const parseField = (spec: FieldSpec, v: unknown): unknown => {
+  switch (spec.kind) {
+    case 'number': {
+      const n = parseNumber(v);
+      if (!Number.isFinite(n) || n < spec.min || n > spec.max || (spec.integer && !Number.isInteger(n))) return undefined;
+      return n;
+    }
+    case 'color': return parseColor(v) ?? undefined;
+    case 'colors': {
+      const colors = toList(v)?.map(parseColor);
+      return colors && colors.length && colors.every(c => c !== null) ? colors : undefined;
+    }
+    case 'vec3': {
+      const nums = toList(v)?.map(parseNumber);
+      return nums && nums.length === 3 && nums.every(n => Number.isFinite(n) && n >= spec.min && n <= spec.max) ? nums : undefined;
+    }
+    case 'strings': {
+      const list = toList(v);
+      return list && list.every(s => typeof s === 'string' && s.trim() !== '') ? list.map(s => (s as string).trim()) : undefined;
+    }
+  }
+};
+
+const setPath = (config: SceneConfig, path: string, value: unknown) => {
+  const keys = path.split('.');
+  let node = config as unknown as Record<string, unknown>;
+  keys.slice(0, -1).forEach(k => { node = node[k] as Record<string, unknown>; });
+  node[keys[keys.length - 1]] = value;
+};
+
+const applyField = (config: SceneConfig, path: string, value: unknown, source: string, errors: string[]) => {
+  const spec = SCHEMA[path];
+  const parsed = parseField(spec, value);
+  if (parsed === undefined) errors.push(`${source}: "${path}" must be ${describe(spec)}, got ${JSON.stringify(value)}`);
+  else setPath(config, path, parsed);
+};
+
+// Walks the JSON object, matching dotted paths against the schema
+const applyJson = (config: SceneConfig, json: unknown, source: string, errors: string[], prefix = '') => {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    errors.push(`${source}: ${prefix ? `"${prefix}" must be an object` : 'expected a JSON object'}`);
+    return;
+  }
+  Object.entries(json as Record<string, unknown>).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (SCHEMA[path]) applyField(config, path, value, source, errors);
+    else if (Object.keys(SCHEMA).some(p => p.startsWith(`${path}.`))) applyJson(config, value, source, errors, path);
+    else errors.push(`${source}: unknown setting "${path}"`);
+  });
+};
+
+const cloneConfig = (c: SceneConfig): SceneConfig => JSON.parse(JSON.stringify(c));
+
+export interface SceneConfigResult {
+  config: SceneConfig;
+  errors: string[];
+}
+
+// Never rejects: any problem falls back to defaults and is listed in `errors`
+export const loadSceneConfig = async (url = SCENE_CONFIG_URL, search = window.location.search): Promise<SceneConfigResult> => {
+  const config = cloneConfig(DEFAULT_SCENE_CONFIG);
+  const errors: string[] = [];
+
+  try {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (response.ok) {
+      let json: unknown;
+      try { json = await response.json(); }
+      catch (e) { errors.push(`scene-config.json is not valid JSON (${e instanceof Error ? e.message : e})`); }
+      if (json !== undefined) applyJson(config, json, 'scene-config.json', errors);
+    } else if (response.status !== 404) {
+      errors.push(`scene-config.json could not be loaded (HTTP ${response.status})`);
+    }
+  } catch (e) { console.warn("Scene config not loaded, using defaults:", e); }
+
+  new URLSearchParams(search).forEach((value, key) => {
+    if (SCHEMA[key]) applyField(config, key, value, 'URL', errors);
+  });
+
+  if (errors.length) console.warn("[Config]:", errors);
+  return { config, errors };
+};
@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+
+// --- GPU RESOURCES ---
+// Three.js never frees geometries, materials or textures on its own: whoever removes an object
+// from the scene for good must dispose it. Shared resources are collected into sets first so
+// each one is released exactly once.
+
+export const disposeMaterial = (material: THREE.Material) => {
+  // Maps, emissive maps, env maps... every texture-valued property
+  Object.values(material).forEach(v => { if (v instanceof THREE.Texture) v.dispose(); });
+  material.dispose();
+};
+
+// Disposes everything below `root`; the caller detaches it from its parent first
+export const disposeObject = (root: THREE.Object3D) => {
+  const geometries = new Set<THREE.BufferGeometry>();
+  const materials = new Set<THREE.Material>();
+  root.traverse(obj => {
+    const mesh = obj as THREE.Mesh | THREE.Points;
+    if (mesh.geometry) geometries.add(mesh.geometry);
+    if (mesh.material) (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach(m => materials.add(m));
+    // Frees the instance matrix and color buffers
+    if (obj instanceof THREE.InstancedMesh) obj.dispose();
+  });
+  geometries.forEach(g => g.dispose());
+  materials.forEach(disposeMaterial);
+};
+
+// Render targets of the composer and of every pass (bloom keeps a mip chain of its own)
+export const disposeComposer = (composer: { passes: { dispose: () => void }[]; dispose: () => void }) => {
+  composer.passes.forEach(pass => pass.dispose());
+  composer.dispose();
+};
+
+export interface GpuMemoryInfo {
+  geometries: number;
+  textures: number;
+  programs: number;
+  calls: number;
+  triangles: number;
+}
+
+export const readGpuMemory = (renderer: THREE.WebGLRenderer): GpuMemoryInfo => ({
+  geometries: renderer.info.memory.geometries,
+  textures: renderer.info.memory.textures,
+  programs: renderer.info.programs?.length ?? 0,
+  calls: renderer.info.render.calls,
+  triangles: renderer.info.render.triangles,
+});
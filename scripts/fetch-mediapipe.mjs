@@ -0,0 +1,37 @@
+// Copies the MediaPipe WASM runtime out of node_modules and downloads the hand model
+// into public/mediapipe, so the app can be served (and cached) without any CDN.
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = path.join(root, 'public', 'mediapipe');
+const wasmSrc = path.join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const wasmOut = path.join(outDir, 'wasm');
+const modelOut = path.join(outDir, 'hand_landmarker.task');
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+fs.mkdirSync(wasmOut, { recursive: true });
+
+if (fs.existsSync(wasmSrc)) {
+  for (const file of fs.readdirSync(wasmSrc)) {
+    fs.copyFileSync(path.join(wasmSrc, file), path.join(wasmOut, file));
+  }
+  console.log(`[mediapipe] WASM runtime copied to ${path.relative(root, wasmOut)}`);
+} else {
+  console.warn('[mediapipe] @mediapipe/tasks-vision is not installed, run npm install first');
+}
+
+if (fs.existsSync(modelOut) && fs.statSync(modelOut).size > 0) {
+  console.log('[mediapipe] Hand model already present');
+} else {
+  try {
+    const res = await fetch(MODEL_URL);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    fs.writeFileSync(modelOut, Buffer.from(await res.arrayBuffer()));
+    console.log(`[mediapipe] Hand model saved to ${path.relative(root, modelOut)}`);
+  } catch (e) {
+    // Not fatal: the app falls back to the remote model at runtime
+    console.warn(`[mediapipe] Model download failed (${e.message}), the app will use the remote fallback`);
+  }
+}
@@ -0,0 +1,134 @@
+// Guest photo inbox: serves the upload page that the display's QR code points at, keeps uploads in
+// memory and lets the display moderate them. No dependencies and no persistence; it is a stand-in
+// for a real backend with the same small HTTP API (see guestUploads.ts). Start with
+// `npm run guests`, then open the display with the `?guests=...` parameter it prints.
+//
+//   POST /uploads?name=&caption=        image body from the upload page
+//   GET  /uploads?key=                  pending and approved uploads, oldest first
+//   GET  /uploads/:id/image?key=        the picture
+//   POST /uploads/:id/:action?key=      action is approve, reject or shown
+//
+// Everything except the upload page and POST /uploads needs the moderator key, so guests who scan
+// the code cannot approve their own pictures. MODERATION=off approves uploads on arrival.
+// Memory is capped by count and by total bytes. Shown and rejected uploads make room first; uploads
+// still waiting for moderation or for the display are never dropped, new ones get a 503 instead.
+import http from 'http';
+import os from 'os';
+import crypto from 'crypto';
+import { readFile } from 'fs/promises';
+
+const PORT = Number(process.env.PORT || 8788);
+const KEY = process.env.MODERATOR_KEY || crypto.randomBytes(6).toString('hex');
+const MODERATION = process.env.MODERATION !== 'off';
+const MAX_UPLOAD = 8 * 1024 * 1024; // The page downscales first, this only stops abuse
+const MAX_KEPT = 300;
+const MAX_TOTAL_BYTES = Number(process.env.MAX_TOTAL_MB || 200) * 1024 * 1024;
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const PAGE = new URL('./guest-upload.html', import.meta.url);
+
+const uploads = new Map(); // id -> { id, name, caption, createdAt, status, type, data }
+
+const cors = { 'access-control-allow-origin': '*', 'access-control-allow-headers': 'content-type', 'access-control-allow-methods': 'GET, POST, OPTIONS' };
+
+const send = (res, status, body, type = 'application/json') => {
+  res.writeHead(status, { ...cors, 'content-type': type, 'cache-control': 'no-store' });
+  res.end(type === 'application/json' ? JSON.stringify(body) : body);
+};
+
+const clean = (value, max) => String(value ?? '').replace(/[\u0000-\u001f]/g, '').trim().slice(0, max);
+
+const readBody = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_UPLOAD) { reject(new Error('too large')); req.pause(); return; }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const storedBytes = () => [...uploads.values()].reduce((sum, u) => sum + u.data.length, 0);
+
+// Drops finished uploads, oldest first, until one more of `size` bytes fits. False when only
+// pending and approved uploads are left and it still does not fit.
+const makeRoom = size => {
+  const fits = () => uploads.size < MAX_KEPT && storedBytes() + size <= MAX_TOTAL_BYTES;
+  for (const u of uploads.values()) {
+    if (fits()) break;
+    if (u.status === 'shown' || u.status === 'rejected') uploads.delete(u.id);
+  }
+  return fits();
+};
+
+const describe = u => ({ id: u.id, name: u.name, caption: u.caption, createdAt: u.createdAt, status: u.status });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean);
+  if (req.method === 'OPTIONS') { res.writeHead(204, cors); res.end(); return; }
+
+  try {
+    if (req.method === 'GET' && parts.length === 0) {
+      send(res, 200, await readFile(PAGE), 'text/html; charset=utf-8');
+      return;
+    }
+    if (parts[0] !== 'uploads') { send(res, 404, { error: 'not found' }); return; }
+
+    if (req.method === 'POST' && parts.length === 1) {
+      const type = (req.headers['content-type'] || '').split(';')[0];
+      if (!IMAGE_TYPES.includes(type)) { send(res, 415, { error: 'send a JPEG, PNG or WebP image' }); return; }
+      const data = await readBody(req);
+      if (data.length === 0) { send(res, 400, { error: 'empty image' }); return; }
+      if (!makeRoom(data.length)) {
+        console.log(`[guests] inbox full, upload refused (${uploads.size} waiting)`);
+        send(res, 503, { error: 'the inbox is full, try again once the host has caught up' });
+        return;
+      }
+      const upload = {
+        id: crypto.randomUUID(), name: clean(url.searchParams.get('name'), 40), caption: clean(url.searchParams.get('caption'), 60),
+        createdAt: Date.now(), status: MODERATION ? 'pending' : 'approved', type, data,
+      };
+      uploads.set(upload.id, upload);
+      console.log(`[guests] ${upload.name || 'anonymous'} uploaded ${Math.round(data.length / 1024)} KB (${upload.status})`);
+      send(res, 201, { id: upload.id, status: upload.status });
+      return;
+    }
+
+    if (url.searchParams.get('key') !== KEY) { send(res, 403, { error: 'moderator key required' }); return; }
+
+    if (req.method === 'GET' && parts.length === 1) {
+      send(res, 200, [...uploads.values()].filter(u => u.status === 'pending' || u.status === 'approved').map(describe));
+      return;
+    }
+    const upload = uploads.get(parts[1]);
+    if (!upload) { send(res, 404, { error: 'unknown upload' }); return; }
+    if (req.method === 'GET' && parts[2] === 'image') { send(res, 200, upload.data, upload.type); return; }
+    if (req.method === 'POST' && ['approve', 'reject', 'shown'].includes(parts[2])) {
+      upload.status = parts[2] === 'approve' ? 'approved' : parts[2] === 'reject' ? 'rejected' : 'shown';
+      // Rejected pictures are not kept around, and the display keeps its own copy of shown ones
+      if (upload.status === 'rejected' || upload.status === 'shown') upload.data = Buffer.alloc(0);
+      send(res, 200, describe(upload));
+      return;
+    }
+    send(res, 404, { error: 'not found' });
+  } catch (e) {
+    // Closing the connection stops a client that keeps sending an oversized body
+    if (e.message === 'too large') res.setHeader('connection', 'close');
+    send(res, e.message === 'too large' ? 413 : 500, { error: e.message });
+  }
+});
+
+const lanAddress = () => {
+  for (const list of Object.values(os.networkInterfaces())) {
+    for (const a of list || []) if (a.family === 'IPv4' && !a.internal) return a.address;
+  }
+  return 'localhost';
+};
+
+server.listen(PORT, () => {
+  const base = `http://${lanAddress()}:${PORT}`;
+  console.log(`[guests] upload page at ${base}/ (moderation ${MODERATION ? 'on' : 'off'})`);
+  console.log(`[guests] open the display with ?guests=${encodeURIComponent(base)}&guestKey=${KEY}`);
+});
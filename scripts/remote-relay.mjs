@@ -0,0 +1,66 @@
+// Tiny WebSocket relay for the phone remote: every text message from one client is forwarded to
+// all the others. No dependencies, meant for a trusted local network (anyone who can reach the
+// port can steer the tree). Start with `npm run relay`, then open the display and controller.html
+// with `?remote=ws://<this machine's LAN address>:8787`.
+import http from 'http';
+import crypto from 'crypto';
+
+const PORT = Number(process.env.PORT || 8787);
+const MAX_MESSAGE = 16 * 1024; // Commands are tiny, anything bigger is dropped with the connection
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const clients = new Set();
+
+// Server frames are never masked; only text and close are needed
+const frame = (opcode, payload) => {
+  const len = payload.length;
+  const head = len < 126 ? Buffer.from([0x80 | opcode, len])
+    : Buffer.from([0x80 | opcode, 126, len >> 8, len & 0xff]);
+  return Buffer.concat([head, payload]);
+};
+
+const broadcast = (from, text) => {
+  const data = frame(0x1, Buffer.from(text));
+  for (const c of clients) if (c !== from && !c.destroyed) c.write(data);
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'content-type': 'text/plain' });
+  res.end(`Noel tree remote relay, ${clients.size} connected\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) { socket.destroy(); return; }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+  clients.add(socket);
+  console.log(`[relay] ${req.socket.remoteAddress} connected (${clients.size})`);
+
+  let buffer = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    // Client frames are always masked; fragmented messages are not used by the remote
+    while (buffer.length >= 6) {
+      const opcode = buffer[0] & 0x0f;
+      let len = buffer[1] & 0x7f, offset = 2;
+      if (len === 126) { len = buffer.readUInt16BE(2); offset = 4; }
+      else if (len === 127) { socket.destroy(); return; }
+      if (len > MAX_MESSAGE) { socket.destroy(); return; }
+      if (buffer.length < offset + 4 + len) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + len));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + len);
+
+      if (opcode === 0x1) broadcast(socket, payload.toString());
+      else if (opcode === 0x8) { socket.end(frame(0x8, Buffer.alloc(0))); return; }
+      else if (opcode === 0x9) socket.write(frame(0xa, payload)); // Ping -> pong
+    }
+  });
+  const drop = () => { if (clients.delete(socket)) console.log(`[relay] disconnected (${clients.size})`); };
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+server.listen(PORT, () => console.log(`[relay] listening on ws://0.0.0.0:${PORT}`));
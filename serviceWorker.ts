@@ -0,0 +1,20 @@
+// --- SERVICE WORKER REGISTRATION ---
+// Only in production builds: in dev the worker would cache Vite's on-the-fly modules.
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', async () => {
+    try {
+      await navigator.serviceWorker.register('./sw.js');
+      const reg = await navigator.serviceWorker.ready;
+      // Hand over what this first visit already downloaded so the next one works offline
+      const urls = performance.getEntriesByType('resource')
+        .map(e => e.name)
+        .filter(u => u.startsWith(location.origin));
+      reg.active?.postMessage({ type: 'CACHE_URLS', urls: [location.href, ...urls] });
+      console.log('[System]: Offline cache ready');
+    } catch (e) {
+      console.warn('Service worker registration failed:', e);
+    }
+  });
+};
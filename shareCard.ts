@@ -0,0 +1,105 @@
+import { canvasToBlob } from './photoStore';
+import { POLAROID_WIDTH, POLAROID_HEIGHT } from './polaroid';
+
+// --- SHARE CARD ---
+// A printable keepsake: a high-resolution render of the tree as it looks right now, the latest
+// polaroid pinned over it, and the event title and caption. 6 x 8 inches at 300 dpi.
+
+export const SHARE_CARD_WIDTH = 1800;
+export const SHARE_CARD_HEIGHT = 2400;
+
+export interface ShareCardOptions {
+  renderScene: (width: number, height: number) => HTMLCanvasElement; // Current view at that size, bloom included
+  polaroid: HTMLCanvasElement | null; // Latest photo, left out when there is none
+  caption: string;
+  font: string;   // CSS font-family list for the caption
+  accent: string; // CSS color
+  date?: Date;
+}
+
+export interface ShareCard {
+  blob: Blob;     // PNG
+  url: string;    // Object URL, revoke when done
+  fileName: string;
+}
+
+const MARGIN = 80;
+const TITLE = 'Merry Christmas';
+const TITLE_FONT = 'italic 700 150px "Playfair Display", serif';
+const SCENE = { x: MARGIN, y: 380, w: SHARE_CARD_WIDTH - MARGIN * 2, h: 1560 };
+const PHOTO_WIDTH = 600;
+const PHOTO_TILT = -0.08; // rad
+
+export const createShareCard = async (opts: ShareCardOptions): Promise<ShareCard> => {
+  const date = opts.date ?? new Date();
+  // Canvas text silently falls back to a default font until the web font has loaded
+  if (document.fonts) {
+    await Promise.all([document.fonts.load(TITLE_FONT, TITLE), document.fonts.load(`700 70px ${opts.font}`, opts.caption || 'A')])
+      .catch(e => console.warn("Share card fonts not loaded:", e));
+  }
+
+  const scene = opts.renderScene(SCENE.w, SCENE.h);
+  const cvs = document.createElement('canvas');
+  cvs.width = SHARE_CARD_WIDTH; cvs.height = SHARE_CARD_HEIGHT;
+  const ctx = cvs.getContext('2d');
+  if (!ctx) throw new Error("Could not create the share card canvas");
+  const W = SHARE_CARD_WIDTH, H = SHARE_CARD_HEIGHT;
+
+  const bg = ctx.createRadialGradient(W / 2, H * 0.4, 0, W / 2, H * 0.4, H * 0.8);
+  bg.addColorStop(0, '#101410'); bg.addColorStop(1, '#020302');
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, W, H);
+  ctx.strokeStyle = opts.accent;
+  ctx.lineWidth = 4;
+  ctx.strokeRect(MARGIN / 2, MARGIN / 2, W - MARGIN, H - MARGIN);
+
+  // Header
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = TITLE_FONT;
+  ctx.fillStyle = opts.accent;
+  ctx.shadowColor = opts.accent; ctx.shadowBlur = 30;
+  ctx.fillText(TITLE.toUpperCase(), W / 2, 230, W - MARGIN * 3);
+  ctx.shadowBlur = 0;
+  const rule = ctx.createLinearGradient(W / 2 - 400, 0, W / 2 + 400, 0);
+  rule.addColorStop(0, 'transparent'); rule.addColorStop(0.5, opts.accent); rule.addColorStop(1, 'transparent');
+  ctx.fillStyle = rule;
+  ctx.fillRect(W / 2 - 400, 322, 800, 4);
+
+  // Tree
+  ctx.drawImage(scene, SCENE.x, SCENE.y, SCENE.w, SCENE.h);
+  ctx.strokeStyle = opts.accent;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(SCENE.x, SCENE.y, SCENE.w, SCENE.h);
+
+  // Polaroid pinned over the lower right corner of the tree
+  if (opts.polaroid) {
+    const pw = PHOTO_WIDTH, ph = PHOTO_WIDTH * POLAROID_HEIGHT / POLAROID_WIDTH;
+    ctx.save();
+    ctx.translate(W - MARGIN - pw / 2 - 40, SCENE.y + SCENE.h - ph / 2 + 260);
+    ctx.rotate(PHOTO_TILT);
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.8)'; ctx.shadowBlur = 50; ctx.shadowOffsetY = 20;
+    ctx.drawImage(opts.polaroid, -pw / 2, -ph / 2, pw, ph);
+    ctx.restore();
+  }
+
+  // Caption and date under the tree, left of the polaroid
+  const textWidth = opts.polaroid ? W - PHOTO_WIDTH - MARGIN * 3 - 80 : W - MARGIN * 3;
+  const textX = opts.polaroid ? MARGIN * 1.5 : W / 2;
+  ctx.textAlign = opts.polaroid ? 'left' : 'center';
+  if (opts.caption) {
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `700 80px ${opts.font}`;
+    ctx.fillText(opts.caption, textX, 2060, textWidth);
+  }
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.65)';
+  ctx.font = '44px "Cinzel", serif';
+  ctx.fillText(date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' }), textX, opts.caption ? 2160 : 2080, textWidth);
+  ctx.fillStyle = opts.accent;
+  ctx.font = '700 28px "Cinzel", serif';
+  ctx.fillText('N O E L   E L E G A N C E', textX, 2270, textWidth);
+
+  const blob = await canvasToBlob(cvs, 'image/png');
+  const stamp = date.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return { blob, url: URL.createObjectURL(blob), fileName: `noel-tree-card-${stamp}.png` };
+};
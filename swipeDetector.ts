@@ -0,0 +1,38 @@
+// --- SWIPE DETECTOR ---
+// Turns a fast horizontal hand movement into a next / previous step. Fed with the palm x
+// position in camera image coordinates (0..1, not mirrored) and real timestamps.
+
+export interface SwipeConfig {
+  minDistance: number; // Horizontal travel needed, as a share of the image width
+  maxMs: number;       // ...within this time, slower drifts are ignored
+  cooldownMs: number;  // Pause after a swipe so the hand can return without swiping back
+}
+
+export const DEFAULT_SWIPE_CONFIG: SwipeConfig = { minDistance: 0.18, maxMs: 350, cooldownMs: 700 };
+
+export type SwipeDirection = -1 | 0 | 1;
+
+export interface SwipeDetector {
+  // 1 = next (a right-to-left flick as the user sees it), -1 = previous, 0 = nothing
+  update: (x: number, now: number) => SwipeDirection;
+  reset: () => void;
+}
+
+export const createSwipeDetector = (config: SwipeConfig = DEFAULT_SWIPE_CONFIG): SwipeDetector => {
+  let samples: { x: number; t: number }[] = [];
+  let blockedUntil = 0;
+
+  const update = (x: number, now: number): SwipeDirection => {
+    samples.push({ x, t: now });
+    while (samples.length && now - samples[0].t > config.maxMs) samples.shift();
+    if (now < blockedUntil) return 0;
+    // The selfie camera image is not mirrored: the user's right-to-left flick increases x
+    const dx = x - samples[0].x;
+    if (Math.abs(dx) < config.minDistance) return 0;
+    samples = [];
+    blockedUntil = now + config.cooldownMs;
+    return dx > 0 ? 1 : -1;
+  };
+
+  return { update, reset: () => { samples = []; } };
+};
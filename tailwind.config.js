@@ -10,6 +10,15 @@ export default {
       fontFamily: {
         cinzel: ['Cinzel', 'serif'],
       },
+      // Theme accent, driven by CSS variables (see themes.ts)
+      colors: {
+        accent: {
+          glow: 'rgb(var(--accent-glow) / <alpha-value>)',
+          400: 'rgb(var(--accent-400) / <alpha-value>)',
+          500: 'rgb(var(--accent-500) / <alpha-value>)',
+          700: 'rgb(var(--accent-700) / <alpha-value>)',
+        },
+      },
     },
   },
   plugins: [],
@@ -0,0 +1,84 @@
+// Landmark frames for the gesture classifier tests: one right hand per frame, palm to the camera,
+// 21 [x, y, z] points in the landmarker's normalized image space (y grows downwards). Each pose has
+// three frames at different positions, sizes and tilts, with a little tracking jitter.
+//
+// These frames are posed, not recorded: they come from a jointed hand model laid out with the
+// landmarker's proportions, so they are cleaner than real tracking. Replace a pose with real frames
+// by opening /capture.html under `npm run dev`, holding the pose in front of the camera and pasting
+// the copied entry over the one below. That page keeps what HandLandmarker (VIDEO mode, the same
+// model and options as the display) reports, rounded to 4 decimals.
+
+export type Frame = [number, number, number][];
+
+export const GESTURE_FRAMES: Record<string, Frame[]> = {
+  // Thumb and index tips touching, the other fingers up
+  PINCH: [
+    [[0.5001, 0.7507, 0.0008], [0.4558, 0.6991, -0.0095], [0.4443, 0.6515, -0.0208], [0.4366, 0.6135, -0.0341], [0.4304, 0.5849, -0.0636], [0.429, 0.5498, -0.0102], [0.4171, 0.512, -0.0396], [0.4197, 0.5212, -0.0666], [0.4266, 0.5416, -0.0776], [0.4791, 0.5396, -0.0097], [0.4742, 0.4864, -0.014], [0.4717, 0.4508, -0.0228], [0.4696, 0.4257, -0.0316], [0.5296, 0.5498, -0.0106], [0.5364, 0.5002, -0.0141], [0.5423, 0.469, -0.0207], [0.5447, 0.4457, -0.0292], [0.5754, 0.5804, -0.0098], [0.592, 0.5427, -0.014], [0.6002, 0.521, -0.0195], [0.6087, 0.5013, -0.027]],
+    [[0.4, 0.7509, -0.0007], [0.3731, 0.7036, -0.0087], [0.3739, 0.6637, -0.0156], [0.374, 0.6337, -0.0276], [0.3729, 0.6095, -0.0512], [0.3778, 0.5817, -0.0074], [0.3746, 0.5497, -0.0303], [0.3761, 0.5576, -0.0545], [0.3774, 0.5764, -0.0616], [0.4198, 0.583, -0.0082], [0.4248, 0.5385, -0.0118], [0.4264, 0.5118, -0.0191], [0.4298, 0.4914, -0.0254], [0.4561, 0.5985, -0.0086], [0.4708, 0.5604, -0.0124], [0.48, 0.5379, -0.0166], [0.4868, 0.5204, -0.0233], [0.4876, 0.6292, -0.0072], [0.5054, 0.6033, -0.0117], [0.5162, 0.587, -0.0162], [0.5269, 0.5746, -0.0216]],
+    [[0.599, 0.6991, 0.0004], [0.54, 0.6531, -0.0109], [0.5184, 0.5995, -0.0229], [0.5016, 0.5581, -0.039], [0.4885, 0.5274, -0.0729], [0.481, 0.4878, -0.0115], [0.4582, 0.4461, -0.0438], [0.4625, 0.4558, -0.0766], [0.4772, 0.4788, -0.09], [0.5348, 0.4652, -0.0116], [0.519, 0.4057, -0.0172], [0.5089, 0.3667, -0.0254], [0.5011, 0.3392, -0.0365], [0.5934, 0.4678, -0.0123], [0.5922, 0.4106, -0.0174], [0.5918, 0.3752, -0.0257], [0.5918, 0.3467, -0.0339], [0.6501, 0.4933, -0.0113], [0.6614, 0.4482, -0.0158], [0.6686, 0.4206, -0.021], [0.675, 0.3985, -0.0295]],
+  ],
+  // Fingers curled, thumb straight up
+  THUMBS_UP: [
+    [[0.4992, 0.7495, 0.0009], [0.4557, 0.7009, -0.0104], [0.45, 0.6492, -0.0201], [0.4473, 0.6096, -0.0204], [0.4435, 0.568, -0.0209], [0.4291, 0.5492, -0.0097], [0.4285, 0.5465, -0.0594], [0.4385, 0.5745, -0.0574], [0.4422, 0.585, -0.034], [0.4809, 0.5404, -0.0098], [0.4802, 0.5346, -0.0657], [0.4833, 0.5702, -0.0619], [0.484, 0.5811, -0.0373], [0.5292, 0.5491, -0.0108], [0.5304, 0.5454, -0.0604], [0.5262, 0.5765, -0.0579], [0.5234, 0.5883, -0.0336], [0.5741, 0.5805, -0.0104], [0.5762, 0.5776, -0.0493], [0.5654, 0.6006, -0.0483], [0.5629, 0.608, -0.0287]],
+    [[0.3993, 0.7505, 0.0005], [0.3726, 0.7041, -0.0074], [0.3776, 0.6636, -0.0164], [0.3814, 0.6327, -0.0153], [0.3863, 0.5986, -0.0153], [0.3791, 0.5825, -0.0075], [0.379, 0.5788, -0.0483], [0.3815, 0.6018, -0.045], [0.3815, 0.6112, -0.0273], [0.4199, 0.5823, -0.0074], [0.4204, 0.5776, -0.0524], [0.4159, 0.6053, -0.0492], [0.4161, 0.6156, -0.0291], [0.4575, 0.5991, -0.0086], [0.4581, 0.5951, -0.0481], [0.4491, 0.6196, -0.0456], [0.4458, 0.627, -0.028], [0.4874, 0.63, -0.0084], [0.4881, 0.6274, -0.0398], [0.4778, 0.6435, -0.0385], [0.4728, 0.6495, -0.0219]],
+    [[0.6001, 0.6993, -0.0006], [0.5383, 0.652, -0.0112], [0.5249, 0.5971, -0.0232], [0.512, 0.5522, -0.0237], [0.4991, 0.5048, -0.023], [0.4805, 0.4867, -0.0112], [0.4781, 0.483, -0.0696], [0.4958, 0.5126, -0.0662], [0.5003, 0.5231, -0.0398], [0.5348, 0.4664, -0.0113], [0.5345, 0.4614, -0.0745], [0.5454, 0.4999, -0.0718], [0.5484, 0.5126, -0.0421], [0.5942, 0.4684, -0.0119], [0.5949, 0.4616, -0.0696], [0.5945, 0.4999, -0.0648], [0.5956, 0.5114, -0.04], [0.6511, 0.493, -0.0121], [0.6526, 0.489, -0.0572], [0.646, 0.516, -0.0558], [0.643, 0.5268, -0.0317]],
+  ],
+  // Fingers curled, thumb folded across them
+  FIST: [
+    [[0.4991, 0.7496, 0.0001], [0.4544, 0.7004, -0.0104], [0.4458, 0.6511, -0.0201], [0.442, 0.6316, -0.054], [0.4484, 0.6585, -0.0865], [0.4309, 0.5491, -0.0095], [0.4288, 0.5463, -0.059], [0.4375, 0.5734, -0.058], [0.4411, 0.5832, -0.0355], [0.4802, 0.5409, -0.0106], [0.4788, 0.5346, -0.0644], [0.4823, 0.5699, -0.0608], [0.4838, 0.5816, -0.0367], [0.5298, 0.5498, -0.0109], [0.5301, 0.5463, -0.0589], [0.5252, 0.5781, -0.057], [0.5236, 0.5871, -0.0342], [0.5743, 0.5792, -0.0105], [0.5767, 0.5769, -0.0499], [0.5673, 0.5987, -0.0478], [0.5622, 0.6071, -0.0287]],
+    [[0.3998, 0.7492, -0.0005], [0.374, 0.7039, -0.0075], [0.3744, 0.6641, -0.0151], [0.3757, 0.6477, -0.0436], [0.374, 0.6688, -0.0695], [0.3785, 0.582, -0.0076], [0.3784, 0.5787, -0.0474], [0.3819, 0.6028, -0.0448], [0.382, 0.6105, -0.0267], [0.4202, 0.5821, -0.0088], [0.4194, 0.5793, -0.0514], [0.417, 0.6072, -0.0488], [0.4149, 0.6148, -0.0292], [0.4559, 0.5993, -0.0074], [0.4582, 0.5956, -0.0478], [0.4489, 0.6198, -0.0455], [0.4468, 0.6266, -0.0271], [0.4868, 0.6292, -0.0086], [0.4888, 0.6266, -0.0391], [0.4776, 0.643, -0.0378], [0.4733, 0.6486, -0.0226]],
+    [[0.6008, 0.699, -0.0007], [0.5388, 0.6514, -0.0111], [0.5202, 0.5977, -0.0236], [0.5124, 0.5771, -0.0635], [0.5214, 0.6061, -0.1008], [0.4814, 0.4877, -0.011], [0.4776, 0.4828, -0.0684], [0.4961, 0.5132, -0.0656], [0.5016, 0.5241, -0.0393], [0.5356, 0.4654, -0.0124], [0.5342, 0.4603, -0.0743], [0.5441, 0.4989, -0.0708], [0.5484, 0.5128, -0.0434], [0.5948, 0.4666, -0.0111], [0.5937, 0.4631, -0.0685], [0.5955, 0.4984, -0.0647], [0.5952, 0.5119, -0.0397], [0.6517, 0.4931, -0.011], [0.6528, 0.4893, -0.0579], [0.6456, 0.5157, -0.0556], [0.6435, 0.5277, -0.0328]],
+  ],
+  // All fingers spread, thumb out to the side
+  OPEN_PALM: [
+    [[0.499, 0.7508, -0.0004], [0.4544, 0.7005, -0.0099], [0.4137, 0.6718, -0.0195], [0.3815, 0.6488, -0.0232], [0.3482, 0.6242, -0.031], [0.4304, 0.5504, -0.0109], [0.4139, 0.5029, -0.0135], [0.4045, 0.4746, -0.0211], [0.3969, 0.4535, -0.029], [0.4802, 0.5408, -0.0092], [0.4745, 0.4851, -0.0141], [0.4712, 0.4508, -0.0231], [0.469, 0.4257, -0.0306], [0.5301, 0.5505, -0.0092], [0.5365, 0.5003, -0.0142], [0.542, 0.4697, -0.0222], [0.5463, 0.4456, -0.03], [0.5747, 0.5803, -0.0092], [0.5911, 0.5429, -0.0137], [0.6005, 0.521, -0.0193], [0.609, 0.5023, -0.026]],
+    [[0.3995, 0.7508, -0.0001], [0.3738, 0.7037, -0.0077], [0.3459, 0.6741, -0.0156], [0.325, 0.6506, -0.0184], [0.301, 0.6268, -0.0249], [0.3782, 0.5816, -0.0074], [0.3742, 0.5415, -0.0108], [0.3696, 0.5189, -0.0176], [0.3672, 0.5014, -0.024], [0.4195, 0.5816, -0.0081], [0.4245, 0.5381, -0.011], [0.4282, 0.5125, -0.0174], [0.4306, 0.4919, -0.0256], [0.4558, 0.598, -0.0088], [0.4697, 0.5614, -0.012], [0.4799, 0.5378, -0.0169], [0.4856, 0.5209, -0.0243], [0.4867, 0.6302, -0.0088], [0.5056, 0.6026, -0.01], [0.5173, 0.5886, -0.0162], [0.5276, 0.5737, -0.0201]],
+    [[0.6001, 0.7004, -0.0005], [0.5385, 0.6518, -0.0114], [0.486, 0.6286, -0.0226], [0.4458, 0.6087, -0.0279], [0.4015, 0.5894, -0.0361], [0.4812, 0.4883, -0.0124], [0.4535, 0.4382, -0.0155], [0.4372, 0.4087, -0.0244], [0.4225, 0.3849, -0.0329], [0.5352, 0.4656, -0.0117], [0.5194, 0.4055, -0.0173], [0.5084, 0.3681, -0.0264], [0.5008, 0.3392, -0.0368], [0.5937, 0.4685, -0.0105], [0.5928, 0.411, -0.0157], [0.591, 0.3747, -0.0255], [0.5909, 0.3473, -0.0336], [0.6519, 0.4925, -0.0121], [0.6618, 0.4473, -0.0152], [0.6687, 0.4209, -0.022], [0.6748, 0.3973, -0.0297]],
+  ],
+  // Index up, thumb out to the side, the rest curled
+  L_SHAPE: [
+    [[0.5004, 0.7504, -0.0009], [0.4554, 0.701, -0.0093], [0.4055, 0.6958, -0.0206], [0.3656, 0.6923, -0.0201], [0.3225, 0.6892, -0.0197], [0.431, 0.5496, -0.0095], [0.4144, 0.5031, -0.0141], [0.4033, 0.4749, -0.0212], [0.3959, 0.4522, -0.0291], [0.4806, 0.5407, -0.0108], [0.4792, 0.5355, -0.0649], [0.4825, 0.5695, -0.0626], [0.4837, 0.5812, -0.037], [0.53, 0.5501, -0.0101], [0.5309, 0.5465, -0.0589], [0.5258, 0.5779, -0.0561], [0.5246, 0.5875, -0.0341], [0.5741, 0.5796, -0.0109], [0.5771, 0.576, -0.0504], [0.5667, 0.599, -0.0481], [0.5619, 0.6086, -0.0281]],
+    [[0.4002, 0.7505, -0.001], [0.3738, 0.7042, -0.0075], [0.3358, 0.6908, -0.0166], [0.3033, 0.6833, -0.016], [0.2717, 0.6726, -0.0153], [0.3789, 0.5824, -0.009], [0.3727, 0.5426, -0.011], [0.3696, 0.5187, -0.0171], [0.3686, 0.5007, -0.0231], [0.4186, 0.5832, -0.007], [0.42, 0.579, -0.0525], [0.4173, 0.6056, -0.0497], [0.4159, 0.6152, -0.0299], [0.4577, 0.5984, -0.0079], [0.4583, 0.5944, -0.0485], [0.4484, 0.6198, -0.0459], [0.447, 0.6271, -0.0282], [0.4869, 0.6295, -0.009], [0.4887, 0.6278, -0.04], [0.4764, 0.6425, -0.0379], [0.4725, 0.6486, -0.0215]],
+    [[0.599, 0.7008, 0.0004], [0.5398, 0.6527, -0.0111], [0.4825, 0.6569, -0.0226], [0.4359, 0.6604, -0.0238], [0.387, 0.6647, -0.023], [0.48, 0.4869, -0.0118], [0.4531, 0.437, -0.017], [0.4367, 0.4087, -0.0239], [0.4237, 0.3838, -0.0341], [0.5355, 0.466, -0.0113], [0.5338, 0.461, -0.0738], [0.5453, 0.4993, -0.0713], [0.5491, 0.5126, -0.042], [0.5935, 0.4684, -0.0107], [0.5943, 0.4626, -0.0685], [0.5956, 0.4985, -0.0656], [0.595, 0.5118, -0.039], [0.6514, 0.4927, -0.0125], [0.6515, 0.4891, -0.0572], [0.6442, 0.5165, -0.054], [0.6416, 0.5277, -0.0316]],
+  ],
+};
+
+// Poses that must not be read as the gesture they resemble
+export const LOOKALIKE_FRAMES: Record<string, Frame[]> = {
+  // Index up with the thumb tucked in: looks like L_SHAPE
+  POINTING: [
+    [[0.4991, 0.7495, 0], [0.4551, 0.6993, -0.0098], [0.4632, 0.6505, -0.0198], [0.4667, 0.637, -0.0584], [0.4591, 0.6726, -0.0795], [0.4308, 0.5505, -0.0097], [0.4142, 0.5021, -0.0141], [0.4046, 0.4747, -0.0212], [0.3958, 0.4536, -0.0289], [0.4809, 0.5391, -0.0107], [0.4803, 0.5359, -0.0646], [0.4821, 0.5699, -0.0618], [0.4844, 0.5816, -0.0377], [0.5292, 0.5492, -0.0101], [0.5315, 0.546, -0.0592], [0.5267, 0.5779, -0.0565], [0.524, 0.588, -0.0339], [0.5755, 0.58, -0.0097], [0.5768, 0.577, -0.0505], [0.5671, 0.6001, -0.0483], [0.5623, 0.6074, -0.027]],
+    [[0.3994, 0.7497, 0.0007], [0.3735, 0.7039, -0.0088], [0.3884, 0.6669, -0.017], [0.3927, 0.656, -0.0467], [0.3803, 0.6826, -0.063], [0.3795, 0.582, -0.0077], [0.3725, 0.5422, -0.0121], [0.3714, 0.5183, -0.0174], [0.3684, 0.4999, -0.0225], [0.4186, 0.5818, -0.0073], [0.4195, 0.5795, -0.0523], [0.4156, 0.6069, -0.0495], [0.4152, 0.6161, -0.0296], [0.4572, 0.5988, -0.0083], [0.4587, 0.5957, -0.0488], [0.4491, 0.6182, -0.0457], [0.4458, 0.6275, -0.0275], [0.486, 0.6304, -0.0072], [0.4891, 0.6272, -0.0397], [0.477, 0.6437, -0.0375], [0.4722, 0.6497, -0.0213]],
+    [[0.6004, 0.7005, 0.0006], [0.5395, 0.6531, -0.0123], [0.5391, 0.5947, -0.0221], [0.5384, 0.5796, -0.0666], [0.5391, 0.6209, -0.0913], [0.4811, 0.4866, -0.0116], [0.452, 0.4366, -0.0171], [0.4364, 0.4086, -0.0236], [0.4224, 0.3836, -0.0338], [0.5345, 0.467, -0.0108], [0.534, 0.4617, -0.0736], [0.5453, 0.4989, -0.0705], [0.5481, 0.5131, -0.0434], [0.5947, 0.4668, -0.0105], [0.5937, 0.4625, -0.0697], [0.5943, 0.4992, -0.0651], [0.5959, 0.511, -0.0394], [0.6516, 0.4925, -0.0105], [0.6523, 0.4885, -0.0573], [0.6448, 0.516, -0.0558], [0.6426, 0.5265, -0.0321]],
+  ],
+  // Index and middle up, thumb tucked: looks like L_SHAPE or OPEN_PALM
+  PEACE: [
+    [[0.5006, 0.7501, 0.0008], [0.4543, 0.6995, -0.0094], [0.4632, 0.6509, -0.0202], [0.4664, 0.6373, -0.0579], [0.459, 0.6729, -0.0786], [0.4305, 0.5492, -0.0094], [0.4128, 0.5038, -0.0145], [0.4041, 0.4755, -0.0212], [0.3962, 0.4521, -0.0294], [0.4808, 0.5399, -0.0096], [0.4748, 0.4846, -0.0149], [0.4715, 0.4524, -0.0228], [0.4689, 0.4255, -0.0323], [0.5299, 0.5505, -0.0104], [0.5316, 0.5451, -0.0603], [0.5267, 0.5774, -0.0562], [0.525, 0.5884, -0.0345], [0.5745, 0.58, -0.0106], [0.5769, 0.5771, -0.0501], [0.5669, 0.5997, -0.0467], [0.5617, 0.6088, -0.0274]],
+    [[0.4002, 0.7496, -0.0002], [0.3737, 0.7044, -0.0078], [0.3883, 0.6669, -0.0166], [0.3924, 0.6559, -0.0453], [0.3817, 0.6839, -0.0634], [0.379, 0.5825, -0.0089], [0.3738, 0.543, -0.0112], [0.3695, 0.5184, -0.0168], [0.3683, 0.4994, -0.0241], [0.42, 0.5824, -0.0087], [0.4245, 0.5391, -0.0128], [0.4275, 0.5112, -0.0185], [0.4295, 0.4916, -0.0251], [0.4574, 0.5979, -0.0072], [0.4579, 0.5952, -0.047], [0.4493, 0.6198, -0.0463], [0.447, 0.6262, -0.0269], [0.4867, 0.6289, -0.0079], [0.4887, 0.6276, -0.0407], [0.4777, 0.6431, -0.0375], [0.4732, 0.6498, -0.022]],
+    [[0.6008, 0.6993, 0], [0.5398, 0.6528, -0.0119], [0.5388, 0.5955, -0.023], [0.5386, 0.5794, -0.066], [0.5392, 0.6205, -0.0896], [0.4817, 0.4869, -0.0109], [0.4537, 0.4382, -0.0172], [0.4358, 0.4075, -0.0246], [0.4234, 0.3853, -0.0346], [0.5361, 0.4662, -0.0124], [0.5177, 0.4053, -0.0168], [0.5072, 0.3674, -0.0262], [0.5, 0.3392, -0.0358], [0.5935, 0.4665, -0.0106], [0.5945, 0.4629, -0.0679], [0.5946, 0.4985, -0.0659], [0.5943, 0.5118, -0.0385], [0.652, 0.4919, -0.0116], [0.6521, 0.4884, -0.0579], [0.6457, 0.5169, -0.055], [0.6416, 0.527, -0.0324]],
+  ],
+  // Fingers curled, thumb pointing down: looks like THUMBS_UP
+  THUMBS_DOWN: [
+    [[0.4995, 0.7509, 0.0002], [0.4558, 0.6991, -0.0095], [0.4597, 0.7503, -0.021], [0.4625, 0.7902, -0.02], [0.4673, 0.8308, -0.0204], [0.429, 0.5494, -0.0097], [0.4292, 0.5451, -0.059], [0.4384, 0.5737, -0.0572], [0.4415, 0.5847, -0.035], [0.4797, 0.5398, -0.0107], [0.4789, 0.5348, -0.0639], [0.4838, 0.5692, -0.0615], [0.4841, 0.5816, -0.0371], [0.5292, 0.5509, -0.0094], [0.5302, 0.5463, -0.0589], [0.5251, 0.5777, -0.0564], [0.5242, 0.5873, -0.0338], [0.5759, 0.5807, -0.0092], [0.5772, 0.5765, -0.05], [0.5656, 0.5994, -0.0485], [0.5616, 0.6091, -0.027]],
+    [[0.4007, 0.7508, -0.0003], [0.3734, 0.7036, -0.0074], [0.3676, 0.7423, -0.0151], [0.3653, 0.7755, -0.0166], [0.3612, 0.8081, -0.016], [0.3788, 0.5814, -0.007], [0.3775, 0.5774, -0.0487], [0.3809, 0.6025, -0.0461], [0.3826, 0.6109, -0.0285], [0.4198, 0.5817, -0.0086], [0.4203, 0.5784, -0.0525], [0.4156, 0.6057, -0.0499], [0.4153, 0.6157, -0.0294], [0.457, 0.598, -0.0085], [0.4575, 0.5955, -0.0487], [0.4483, 0.6182, -0.0455], [0.4462, 0.6264, -0.0272], [0.4868, 0.6288, -0.0088], [0.4879, 0.6277, -0.0398], [0.4778, 0.6438, -0.0377], [0.4719, 0.6488, -0.0228]],
+    [[0.5994, 0.6998, 0.0007], [0.5385, 0.6522, -0.0111], [0.554, 0.7071, -0.0223], [0.5654, 0.7519, -0.0233], [0.5778, 0.7992, -0.0227], [0.4814, 0.488, -0.0124], [0.4776, 0.4825, -0.0693], [0.496, 0.5136, -0.0665], [0.5018, 0.5246, -0.0388], [0.5361, 0.4665, -0.0111], [0.5342, 0.4615, -0.0746], [0.5453, 0.4988, -0.0714], [0.5477, 0.5118, -0.0428], [0.5936, 0.4667, -0.0119], [0.5933, 0.463, -0.0695], [0.5948, 0.4999, -0.0661], [0.5945, 0.5122, -0.0387], [0.652, 0.4922, -0.0122], [0.6519, 0.4879, -0.0578], [0.6454, 0.5164, -0.0554], [0.6421, 0.5265, -0.0318]],
+  ],
+  // Relaxed hand, fingers half bent: barely past the OPEN_PALM threshold
+  HALF_OPEN: [
+    [[0.5006, 0.7499, -0.001], [0.4555, 0.6992, -0.0098], [0.4296, 0.6557, -0.0194], [0.4131, 0.6262, -0.0396], [0.4021, 0.6078, -0.0756], [0.4306, 0.5496, -0.0095], [0.4173, 0.5139, -0.0417], [0.4179, 0.513, -0.0717], [0.4224, 0.5263, -0.0944], [0.4809, 0.5404, -0.0092], [0.4756, 0.4977, -0.0444], [0.4756, 0.4983, -0.0794], [0.4779, 0.5117, -0.1045], [0.5294, 0.5509, -0.0103], [0.5347, 0.5121, -0.0426], [0.5361, 0.5117, -0.0751], [0.5339, 0.5245, -0.0962], [0.5741, 0.5798, -0.0093], [0.588, 0.5526, -0.0359], [0.587, 0.5526, -0.061], [0.5821, 0.5615, -0.0795]],
+    [[0.4003, 0.7506, -0.0003], [0.3733, 0.7027, -0.0084], [0.3614, 0.6655, -0.0161], [0.352, 0.6399, -0.0323], [0.3464, 0.623, -0.0602], [0.3793, 0.5819, -0.0074], [0.3741, 0.5517, -0.0331], [0.3744, 0.5509, -0.0573], [0.3768, 0.5611, -0.0753], [0.4201, 0.5829, -0.0086], [0.4228, 0.5488, -0.0356], [0.4233, 0.5495, -0.064], [0.4222, 0.5598, -0.0833], [0.4571, 0.5978, -0.0085], [0.4678, 0.5691, -0.0332], [0.4678, 0.5704, -0.0587], [0.4634, 0.5793, -0.077], [0.4863, 0.6301, -0.0076], [0.5021, 0.6096, -0.0283], [0.502, 0.6104, -0.0488], [0.4954, 0.6173, -0.0635]],
+    [[0.5999, 0.6996, -0.0007], [0.5397, 0.6521, -0.0108], [0.5014, 0.6085, -0.0238], [0.4759, 0.5777, -0.0455], [0.4616, 0.5593, -0.087], [0.4812, 0.4872, -0.011], [0.46, 0.4499, -0.0483], [0.46, 0.4483, -0.0838], [0.4672, 0.462, -0.1084], [0.5363, 0.4669, -0.0107], [0.5232, 0.4187, -0.0522], [0.5228, 0.4202, -0.0927], [0.5274, 0.4345, -0.1189], [0.5941, 0.4671, -0.0112], [0.5933, 0.4234, -0.0476], [0.5929, 0.4226, -0.0853], [0.5942, 0.4373, -0.1103], [0.6501, 0.4927, -0.0107], [0.6586, 0.4573, -0.0403], [0.6584, 0.4584, -0.0698], [0.6556, 0.4707, -0.0917]],
+  ],
+  // Index up, thumb half out to the side: short of an L
+  THUMB_PARTLY_OUT: [
+    [[0.5006, 0.7499, -0.001], [0.4555, 0.6992, -0.0098], [0.4296, 0.6557, -0.0194], [0.414, 0.6278, -0.0426], [0.4099, 0.6213, -0.0835], [0.4306, 0.5496, -0.0095], [0.4135, 0.5031, -0.0139], [0.4045, 0.4745, -0.0207], [0.397, 0.4538, -0.0299], [0.4809, 0.5404, -0.0092], [0.4792, 0.5349, -0.0638], [0.4825, 0.5702, -0.0608], [0.4846, 0.5815, -0.0381], [0.5294, 0.5509, -0.0103], [0.5296, 0.5457, -0.0603], [0.5264, 0.5768, -0.0579], [0.5244, 0.5877, -0.0348], [0.5741, 0.5798, -0.0093], [0.577, 0.5774, -0.0501], [0.566, 0.6003, -0.048], [0.5618, 0.6076, -0.0275]],
+    [[0.4003, 0.7506, -0.0003], [0.3733, 0.7027, -0.0084], [0.3614, 0.6655, -0.0161], [0.3524, 0.6413, -0.0346], [0.3502, 0.6349, -0.0665], [0.3793, 0.5819, -0.0074], [0.3729, 0.5426, -0.0108], [0.3702, 0.5185, -0.0165], [0.369, 0.5001, -0.0236], [0.4201, 0.5829, -0.0086], [0.4194, 0.5785, -0.0512], [0.4167, 0.6069, -0.0491], [0.4158, 0.6155, -0.0301], [0.4571, 0.5978, -0.0085], [0.4583, 0.5945, -0.0474], [0.4493, 0.6197, -0.045], [0.4455, 0.6271, -0.0279], [0.4863, 0.6301, -0.0076], [0.4894, 0.6272, -0.0396], [0.4776, 0.6442, -0.0383], [0.4718, 0.65, -0.0218]],
+    [[0.5999, 0.6996, -0.0007], [0.5397, 0.6521, -0.0108], [0.5014, 0.6085, -0.0238], [0.4773, 0.5793, -0.0488], [0.4731, 0.573, -0.0962], [0.4812, 0.4872, -0.011], [0.4535, 0.4383, -0.0163], [0.4371, 0.4075, -0.0251], [0.424, 0.3849, -0.0342], [0.5363, 0.4669, -0.0107], [0.5346, 0.4601, -0.0745], [0.5449, 0.5002, -0.0713], [0.5489, 0.5122, -0.0424], [0.5941, 0.4671, -0.0112], [0.5943, 0.4624, -0.0679], [0.5949, 0.4983, -0.0656], [0.5961, 0.5108, -0.0396], [0.6501, 0.4927, -0.0107], [0.6512, 0.4877, -0.0566], [0.6441, 0.5165, -0.0548], [0.6418, 0.527, -0.0319]],
+  ],
+  // Open hand turned side-on, thumb and fingers overlapping in the image
+  PROFILE_VIEW: [
+    [[0.4994, 0.7504, 0.0002], [0.4794, 0.6993, 0.0419], [0.4612, 0.6612, 0.0694], [0.448, 0.632, 0.093], [0.4277, 0.6004, 0.113], [0.472, 0.5499, 0.064], [0.4645, 0.5023, 0.0796], [0.4552, 0.4764, 0.0883], [0.4455, 0.4523, 0.0931], [0.4859, 0.5396, 0.0174], [0.48, 0.4845, 0.0211], [0.4713, 0.4514, 0.0225], [0.4623, 0.4252, 0.0209], [0.4988, 0.5508, -0.0324], [0.4955, 0.501, -0.0397], [0.4904, 0.4704, -0.0468], [0.483, 0.4463, -0.0524], [0.5107, 0.5798, -0.0749], [0.5098, 0.5436, -0.0912], [0.5069, 0.5217, -0.1028], [0.5032, 0.5027, -0.1132]],
+    [[0.3997, 0.7494, -0.0001], [0.3925, 0.7077, 0.0332], [0.3838, 0.675, 0.0563], [0.3784, 0.6483, 0.0741], [0.3668, 0.6224, 0.0904], [0.4112, 0.5895, 0.0524], [0.4134, 0.5498, 0.0631], [0.4099, 0.5272, 0.0689], [0.4069, 0.508, 0.0732], [0.4235, 0.5835, 0.0143], [0.4282, 0.5399, 0.0158], [0.4269, 0.5123, 0.0182], [0.4238, 0.4892, 0.0175], [0.4316, 0.5932, -0.0252], [0.4381, 0.5548, -0.0329], [0.4381, 0.5283, -0.0373], [0.437, 0.5096, -0.0418], [0.4364, 0.6181, -0.0595], [0.4421, 0.5898, -0.0733], [0.4441, 0.5718, -0.0812], [0.4439, 0.5572, -0.0901]],
+    [[0.5991, 0.7007, 0.0006], [0.5657, 0.6474, 0.0469], [0.5372, 0.6087, 0.0796], [0.5169, 0.5757, 0.1064], [0.4885, 0.5461, 0.1292], [0.5293, 0.4791, 0.0757], [0.5097, 0.4284, 0.0925], [0.4938, 0.3983, 0.0995], [0.4785, 0.3749, 0.107], [0.5417, 0.4657, 0.0188], [0.5238, 0.4049, 0.0226], [0.5069, 0.3682, 0.0254], [0.491, 0.341, 0.0244], [0.5589, 0.4747, -0.0363], [0.5461, 0.4191, -0.0457], [0.5332, 0.3846, -0.0527], [0.5208, 0.3593, -0.0589], [0.5775, 0.5064, -0.0858], [0.5699, 0.4635, -0.1044], [0.5623, 0.4389, -0.1174], [0.5546, 0.4182, -0.1302]],
+  ],
+};
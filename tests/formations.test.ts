@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { FormationFrame, getFormation, getFormationTarget, hasFormationTints, layoutFormation, listFormations, Formation } from '../formations';
+import { Particle } from '../types';
+import { DEFAULT_SCENE_CONFIG } from '../sceneConfig';
+
+const photo = (id: string, createdAt: number) => ({
+  id, createdAt, isPhoto: true, type: 'PHOTO', mesh: new THREE.Object3D(),
+  treePos: new THREE.Vector3(), scatterPos: new THREE.Vector3(99, 99, 99), textPos: new THREE.Vector3(),
+  velocity: new THREE.Vector3(), rotationSpeed: new THREE.Vector3(),
+}) as Particle;
+
+const ornament = () => ({ ...photo('', 0), id: undefined, isPhoto: false, type: 'ORNAMENT' }) as Particle;
+
+// Two trees on one page that restored the same photos from the shared store
+const twoTrees = () => [[photo('a', 1), photo('b', 2)], [photo('a', 1), photo('b', 2)]];
+
+describe('photo wall', () => {
+  const wall = getFormation('WALL')!;
+
+  it('lays out every tree on its own', () => {
+    const [first, second] = twoTrees();
+    const frames: FormationFrame[] = [{ time: 0, burst: 0, particles: first }, { time: 0, burst: 0, particles: second }];
+    for (const frame of frames) {
+      for (const p of frame.particles) expect(getFormationTarget(wall, p, frame, new THREE.Vector3())).not.toBe(p.scatterPos);
+    }
+    expect(wall.photoScale?.(frames[1])).toBe(1);
+  });
+
+  it('shrinks the photos of a full wall only', () => {
+    const full = Array.from({ length: 200 }, (_, i) => photo(`p${i}`, i));
+    expect(wall.photoScale?.({ time: 0, burst: 0, particles: full })).toBeLessThan(1);
+    expect(wall.photoScale?.({ time: 0, burst: 0, particles: twoTrees()[0] })).toBe(1);
+  });
+});
+
+describe('formations of one tree', () => {
+  const tinted: Formation = {
+    id: 'TINTED', label: 'Tinted', icon: '*', key: 'x',
+    layout: count => ({ points: Array.from({ length: count }, () => new THREE.Vector3()), colors: Array.from({ length: count }, () => new THREE.Color()) }),
+  };
+
+  it('are found by the lookups they are passed to, and nowhere else', () => {
+    expect(getFormation('TINTED', [tinted])).toBe(tinted);
+    expect(getFormation('TINTED')).toBeUndefined();
+    expect(listFormations([tinted])).toContain(tinted);
+    expect(listFormations()).not.toContain(tinted);
+  });
+
+  it('only tint the tree that laid them out', () => {
+    const first = [ornament()], second = [ornament()];
+    layoutFormation(tinted, first, { tree: DEFAULT_SCENE_CONFIG.tree });
+    expect(hasFormationTints('TINTED', first)).toBe(true);
+    expect(hasFormationTints('TINTED', second)).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { classifyGesture, DEFAULT_GESTURE_CONFIG, GestureConfig } from '../gestureClassifier';
+import { Frame, GESTURE_FRAMES, LOOKALIKE_FRAMES } from './fixtures/gestureFrames';
+
+const landmarks = (frame: Frame): NormalizedLandmark[] => frame.map(([x, y, z]) => ({ x, y, z, visibility: 1 }));
+
+describe('classifyGesture', () => {
+  describe.each(Object.entries(GESTURE_FRAMES))('%s', (gesture, frames) => {
+    it.each(frames.map((frame, i) => [i, frame] as const))('frame %i', (_, frame) => {
+      const result = classifyGesture(landmarks(frame));
+      expect(result.gesture).toBe(gesture);
+      expect(result.confidence).toBeGreaterThanOrEqual(0.65);
+      expect(result.features).not.toBeNull();
+    });
+  });
+
+  it('reads pointing and peace signs as no gesture rather than L_SHAPE', () => {
+    for (const frame of [...LOOKALIKE_FRAMES.POINTING, ...LOOKALIKE_FRAMES.PEACE]) {
+      expect(classifyGesture(landmarks(frame)).gesture).toBe('NONE');
+    }
+  });
+
+  it('reads a thumbs down as a fist', () => {
+    for (const frame of LOOKALIKE_FRAMES.THUMBS_DOWN) {
+      expect(classifyGesture(landmarks(frame))).toMatchObject({ gesture: 'FIST', confidence: 1 });
+    }
+  });
+
+  it('gives a relaxed half-open hand only borderline confidence, so minConfidence can drop it', () => {
+    const strict: GestureConfig = { ...DEFAULT_GESTURE_CONFIG, minConfidence: 0.6 };
+    for (const frame of LOOKALIKE_FRAMES.HALF_OPEN) {
+      const loose = classifyGesture(landmarks(frame));
+      expect(loose.gesture).toBe('OPEN_PALM');
+      expect(loose.confidence).toBeLessThan(0.6);
+      expect(classifyGesture(landmarks(frame), strict).gesture).toBe('NONE');
+    }
+  });
+
+  it('keeps a thumb only partly out below the confidence an L_SHAPE needs', () => {
+    const strict: GestureConfig = { ...DEFAULT_GESTURE_CONFIG, minConfidence: 0.6 };
+    for (const frame of LOOKALIKE_FRAMES.THUMB_PARTLY_OUT) {
+      const loose = classifyGesture(landmarks(frame));
+      if (loose.gesture === 'L_SHAPE') expect(loose.confidence).toBeLessThan(0.6);
+      else expect(loose.gesture).toBe('NONE');
+      expect(classifyGesture(landmarks(frame), strict).gesture).toBe('NONE');
+    }
+  });
+
+  it('reads an open hand seen side-on as an open palm, not a pinch', () => {
+    for (const frame of LOOKALIKE_FRAMES.PROFILE_VIEW) {
+      expect(classifyGesture(landmarks(frame)).gesture).toBe('OPEN_PALM');
+    }
+  });
+
+  it('follows the configured priority when rules overlap', () => {
+    // A thumbs up also satisfies FIST; putting FIST first must win
+    const fistFirst: GestureConfig = { ...DEFAULT_GESTURE_CONFIG, priority: ['FIST', 'THUMBS_UP'] };
+    expect(classifyGesture(landmarks(GESTURE_FRAMES.THUMBS_UP[0]), fistFirst).gesture).toBe('FIST');
+  });
+
+  it('uses calibrated thresholds', () => {
+    // A tighter pinch distance than the fixture's finger gap turns the pinch into no gesture
+    const tight: GestureConfig = { ...DEFAULT_GESTURE_CONFIG, pinchDistance: 0.02 };
+    expect(classifyGesture(landmarks(GESTURE_FRAMES.PINCH[0]), tight).gesture).toBe('NONE');
+  });
+
+  it('reports NONE with zero confidence for missing or partial hands', () => {
+    expect(classifyGesture(undefined)).toEqual({ gesture: 'NONE', confidence: 0, features: null });
+    expect(classifyGesture(landmarks(GESTURE_FRAMES.FIST[0]).slice(0, 12))).toEqual({ gesture: 'NONE', confidence: 0, features: null });
+  });
+});
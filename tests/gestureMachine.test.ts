@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createGestureMachine, createRecordGesture, DEFAULT_GESTURE_TIMING, GestureMachine, RECORD_HOLD_MS } from '../gestureMachine';
+import { GestureType } from '../types';
+
+const { enterMs, exitMs } = DEFAULT_GESTURE_TIMING;
+const fistHoldMs = DEFAULT_GESTURE_TIMING.holdMs.FIST!;
+
+type Step = [GestureType, number]; // Raw reading and how long it lasts in ms
+interface GestureEvent { kind: 'entered' | 'exited' | 'hold'; gesture: GestureType; at: number }
+
+// Feeds the steps at a fixed frame rate and records what the machine reports, frame by frame
+const play = (steps: Step[], fps: number, machine: GestureMachine = createGestureMachine()) => {
+  const frameMs = 1000 / fps;
+  const events: GestureEvent[] = [];
+  const active: { at: number; gesture: GestureType }[] = [];
+  let now = 0;
+  for (const [raw, duration] of steps) {
+    for (const end = now + duration; now < end; now += frameMs) {
+      const u = machine.update(raw, now);
+      if (u.exited) events.push({ kind: 'exited', gesture: u.exited, at: now });
+      if (u.entered) events.push({ kind: 'entered', gesture: u.entered, at: now });
+      if (u.holdCompleted) events.push({ kind: 'hold', gesture: u.holdCompleted, at: now });
+      active.push({ at: now, gesture: u.active });
+    }
+  }
+  return { events, active };
+};
+
+describe('gesture machine', () => {
+  it('ignores a single noisy frame, both before and during a gesture', () => {
+    const { events } = play([['NONE', 200], ['FIST', 1000 / 60], ['NONE', 200], ['FIST', 400], ['OPEN_PALM', 1000 / 60], ['FIST', 400]], 60);
+    expect(events.filter(e => e.kind !== 'hold')).toEqual([{ kind: 'entered', gesture: 'FIST', at: expect.any(Number) }]);
+  });
+
+  it('keeps the gesture active for exitMs after it is lost', () => {
+    const { active } = play([['FIST', 500], ['NONE', 600]], 120);
+    const lastSeen = active.filter(a => a.at < 500).pop()!.at;
+    const releasedAt = active.find(a => a.gesture === 'NONE' && a.at > lastSeen)!.at;
+    expect(active.filter(a => a.at >= lastSeen && a.at < lastSeen + exitMs).every(a => a.gesture === 'FIST')).toBe(true);
+    expect(releasedAt - lastSeen).toBeGreaterThanOrEqual(exitMs);
+    expect(releasedAt - lastSeen).toBeLessThan(exitMs + 1000 / 120 + 1);
+  });
+
+  it('fires a hold exactly once per activation', () => {
+    const { events } = play([['FIST', fistHoldMs * 3], ['NONE', exitMs * 2], ['FIST', fistHoldMs * 3]], 60);
+    const holds = events.filter(e => e.kind === 'hold');
+    expect(holds.map(e => e.gesture)).toEqual(['FIST', 'FIST']);
+    expect(events.map(e => e.kind)).toEqual(['entered', 'hold', 'exited', 'entered', 'hold']);
+  });
+
+  it('does not restart a hold when noise interrupts it', () => {
+    const { events } = play([['FIST', fistHoldMs / 2], ['NONE', exitMs / 2], ['FIST', fistHoldMs]], 60);
+    const entered = events.find(e => e.kind === 'entered')!;
+    const hold = events.find(e => e.kind === 'hold')!;
+    expect(hold.at - entered.at).toBeLessThan(fistHoldMs + 20);
+  });
+
+  it('reports the same gestures at the same times at 30 and 120 fps', () => {
+    const script: Step[] = [['NONE', 300], ['FIST', 1200], ['NONE', 400], ['OPEN_PALM', 800], ['PINCH', 40], ['OPEN_PALM', 500], ['NONE', 500]];
+    const slow = play(script, 30).events, fast = play(script, 120).events;
+    expect(slow.map(e => [e.kind, e.gesture])).toEqual(fast.map(e => [e.kind, e.gesture]));
+    // The slower camera sees a change up to a frame late and the end of a wait up to a frame late
+    slow.forEach((e, i) => expect(Math.abs(e.at - fast[i].at)).toBeLessThanOrEqual(2 * 1000 / 30 + 1));
+  });
+
+  it('needs enterMs of a steady reading to activate', () => {
+    const { events } = play([['L_SHAPE', enterMs * 2]], 120);
+    expect(events[0]).toMatchObject({ kind: 'entered', gesture: 'L_SHAPE' });
+    expect(events[0].at).toBeGreaterThanOrEqual(enterMs);
+  });
+});
+
+describe('two-fist record gesture', () => {
+  // Feeds both machines the way the tree does: one hand goes to the gesture machine while the record
+  // gesture sees no pair, two hands go to the record gesture only
+  const film = (steps: [GestureType, GestureType | null, number][]) => {
+    const toggleRecording = vi.fn();
+    const oneHand = createGestureMachine(), record = createRecordGesture();
+    let now = 0;
+    for (const [a, b, duration] of steps) {
+      for (const end = now + duration; now < end; now += 1000 / 60) {
+        const r = b === null ? record.update('NONE', 'NONE', now) : record.update(a, b, now);
+        if (b === null) oneHand.update(a, now);
+        if (r.fired) toggleRecording();
+      }
+    }
+    return toggleRecording;
+  };
+
+  it('never records on a plain scatter, however long the palm is held', () => {
+    expect(film([['OPEN_PALM', null, 10000]])).not.toHaveBeenCalled();
+    expect(film([['OPEN_PALM', 'OPEN_PALM', 10000]])).not.toHaveBeenCalled();
+  });
+
+  it('never records on a scatter followed by a gather', () => {
+    expect(film([['OPEN_PALM', null, 3000], ['FIST', null, 5000], ['FIST', 'OPEN_PALM', 5000]])).not.toHaveBeenCalled();
+  });
+
+  it('records once per hold of two fists', () => {
+    expect(film([['FIST', 'FIST', RECORD_HOLD_MS - 200]])).not.toHaveBeenCalled();
+    expect(film([['FIST', 'FIST', RECORD_HOLD_MS * 3]])).toHaveBeenCalledTimes(1);
+    expect(film([['FIST', 'FIST', RECORD_HOLD_MS * 2], ['FIST', null, 1000], ['FIST', 'FIST', RECORD_HOLD_MS * 2]])).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getVisionAssetCandidates, LOCAL_ASSETS, REMOTE_ASSETS } from '../visionAssets';
+import SW_SOURCE from '../public/sw.js?raw';
+
+// Runs public/sw.js against an in-memory cache with the network down, and routes the page's
+// fetches through it the way a controlling service worker would.
+
+const ORIGIN = 'https://tree.example';
+const MEDIAPIPE_FILES = ['mediapipe/wasm/vision_wasm_internal.js', 'mediapipe/hand_landmarker.task'];
+
+type FetchHandler = (event: { request: Request; respondWith: (r: Promise<Response>) => void }) => void;
+
+const offlineWorker = (cachedPaths: string[]) => {
+  const entries = new Map(cachedPaths.map(p => [`${ORIGIN}/${p}`, new Response('bytes', { headers: { 'content-type': 'application/octet-stream' } })]));
+  // Like the Cache API: only GET requests match unless ignoreMethod is set
+  const caches = {
+    match: async (req: Request | string) => {
+      if (typeof req !== 'string' && req.method !== 'GET') return undefined;
+      return entries.get(typeof req === 'string' ? req : req.url)?.clone();
+    },
+    open: async () => ({ put: async () => {}, add: async () => {} }),
+    keys: async () => [],
+  };
+  const network = vi.fn(async (): Promise<Response> => { throw new TypeError('Failed to fetch'); });
+  const handlers: Record<string, FetchHandler> = {};
+  const self = {
+    location: new URL(`${ORIGIN}/sw.js`),
+    registration: { scope: `${ORIGIN}/` },
+    addEventListener: (type: string, handler: FetchHandler) => { handlers[type] = handler; },
+  };
+  new Function('self', 'caches', 'fetch', SW_SOURCE)(self, caches, network);
+
+  // What the page's fetch() resolves to while the worker controls it
+  const pageFetch = async (input: string, init?: RequestInit) => {
+    const request = new Request(new URL(input, `${ORIGIN}/`), init);
+    let response: Promise<Response> | null = null;
+    handlers.fetch({ request, respondWith: r => { response = r; } });
+    return response ?? network();
+  };
+  return { pageFetch, network };
+};
+
+afterEach(() => { vi.unstubAllGlobals(); });
+
+describe('offline MediaPipe assets', () => {
+  it('answers HEAD probes from the cache without touching the network', async () => {
+    const { pageFetch, network } = offlineWorker(MEDIAPIPE_FILES);
+    const res = await pageFetch('./mediapipe/hand_landmarker.task', { method: 'HEAD' });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/octet-stream');
+    expect(res.body).toBeNull();
+    expect(network).not.toHaveBeenCalled();
+  });
+
+  it('prefers the cached local assets when offline', async () => {
+    vi.stubGlobal('fetch', offlineWorker(MEDIAPIPE_FILES).pageFetch);
+    expect(await getVisionAssetCandidates()).toEqual([LOCAL_ASSETS, REMOTE_ASSETS]);
+  });
+
+  it('falls back to the CDN when the model was never cached', async () => {
+    vi.stubGlobal('fetch', offlineWorker(MEDIAPIPE_FILES.slice(0, 1)).pageFetch);
+    expect(await getVisionAssetCandidates()).toEqual([REMOTE_ASSETS]);
+  });
+});
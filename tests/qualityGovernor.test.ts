@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createQualityGovernor, DEFAULT_GOVERNOR_OPTIONS, QualityGovernor } from '../qualityGovernor';
+
+const ULTRA = 0, HIGH = 1, LOW = 3;
+const MINUTE = 60000;
+
+// Runs the governor for `durationMs` on a device whose frame time depends only on the tier
+const run = (governor: QualityGovernor, frameMsForTier: (tier: number) => number, durationMs: number) => {
+  const changes: { at: number; tier: number }[] = [];
+  for (let now = 0; now < durationMs;) {
+    const frameMs = frameMsForTier(governor.tier);
+    now += frameMs;
+    const tier = governor.sample(frameMs, now);
+    if (tier !== null) changes.push({ at: now, tier });
+  }
+  return changes;
+};
+
+describe('quality governor', () => {
+  it('steps down on a device that cannot keep up and stays there', () => {
+    const governor = createQualityGovernor();
+    run(governor, tier => [40, 32, 26, 15][tier], 5 * MINUTE);
+    expect(governor.tier).toBe(LOW);
+  });
+
+  it('backs off further each time a tier on the edge fails again', () => {
+    // ULTRA just misses the budget, HIGH has plenty of headroom: the case that used to flap
+    const governor = createQualityGovernor();
+    const changes = run(governor, tier => (tier === ULTRA ? 25 : 15), 10 * MINUTE);
+    const retries = changes.filter(c => c.tier === ULTRA).map(c => c.at);
+    const gaps = retries.slice(1).map((at, i) => at - retries[i]);
+    expect(retries.length).toBeLessThanOrEqual(6);
+    expect(gaps[1]).toBeGreaterThan(gaps[0]);
+    gaps.slice(1).forEach((gap, i) => expect(gap).toBeGreaterThanOrEqual(gaps[i]));
+    expect(gaps[gaps.length - 1]).toBeGreaterThanOrEqual(DEFAULT_GOVERNOR_OPTIONS.maxRetryMs);
+    expect(governor.tier).toBe(HIGH);
+  });
+
+  it('keeps full quality on a 30 Hz display that keeps up with its refresh rate', () => {
+    const governor = createQualityGovernor();
+    const changes = run(governor, () => 1000 / 30, 10 * MINUTE);
+    expect(governor.tier).toBe(ULTRA);
+    // One step down is how it finds out the frames are the display's; it comes straight back
+    expect(changes.length).toBeLessThanOrEqual(2);
+  });
+
+  it('settles on the best tier a 30 Hz display can keep up with', () => {
+    // ULTRA takes two refreshes per frame, every other tier one
+    const governor = createQualityGovernor();
+    const changes = run(governor, tier => (tier === ULTRA ? 2000 / 30 : 1000 / 30), 10 * MINUTE);
+    expect(governor.tier).toBe(HIGH);
+    expect(changes.filter(c => c.tier === ULTRA).length).toBeLessThanOrEqual(6);
+  });
+
+  it('ignores hitches', () => {
+    const governor = createQualityGovernor();
+    run(governor, () => DEFAULT_GOVERNOR_OPTIONS.maxSampleMs + 1, MINUTE);
+    expect(governor.tier).toBe(ULTRA);
+  });
+});
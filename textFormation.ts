@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+
+// --- TEXT FORMATION ---
+// Rasterizes any string (multi-line, non-Latin, emoji) and samples its opaque pixels as particle targets.
+
+export interface TextSettings {
+  text: string;    // Formed by the particles, "\n" separates lines
+  caption: string; // Burned into every polaroid
+  font: string;    // CSS font-family list
+}
+
+export const TEXT_FONTS: { label: string; family: string; weight: number }[] = [
+  { label: 'Heavy Sans', family: '"Arial Black", "Noto Sans", sans-serif', weight: 900 },
+  { label: 'Cinzel', family: 'Cinzel, serif', weight: 700 },
+  { label: 'Playfair', family: '"Playfair Display", serif', weight: 700 },
+  { label: 'Serif', family: 'Georgia, "Noto Serif", serif', weight: 700 },
+  { label: 'Rounded', family: '"Trebuchet MS", "Noto Sans", system-ui, sans-serif', weight: 700 },
+];
+
+export const DEFAULT_TEXT_SETTINGS: TextSettings = { text: 'VAVE', caption: 'VAVE', font: TEXT_FONTS[0].family };
+
+const STORAGE_KEY = 'noel-tree:text';
+const FONT_PX = 80;
+const LINE_HEIGHT = 1.15;
+const MAX_WORLD_WIDTH = 150;  // Matches the original 300px * 0.5 footprint
+const MAX_WORLD_HEIGHT = 70;
+const DEPTH = 6;
+
+export const getFontWeight = (family: string) => TEXT_FONTS.find(f => f.family === family)?.weight ?? 700;
+
+export const loadTextSettings = (): TextSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_TEXT_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) { console.warn("Text settings unreadable:", e); }
+  return { ...DEFAULT_TEXT_SETTINGS };
+};
+
+export const saveTextSettings = (s: TextSettings) => {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(s)); }
+  catch (e) { console.warn("Text settings not saved:", e); }
+};
+
+const splitLines = (text: string) => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  return lines.length ? lines : [' '];
+};
+
+// Web fonts must be ready before rasterizing or the canvas silently falls back
+export const ensureFontLoaded = async (family: string, sample: string) => {
+  if (!document.fonts) return;
+  try { await document.fonts.load(`${getFontWeight(family)} ${FONT_PX}px ${family}`, sample); }
+  catch (e) { console.warn("Font load failed:", e); }
+};
+
+export const getTextPoints = (count: number, text: string, family: string): THREE.Vector3[] => {
+  const lines = splitLines(text);
+  const font = `${getFontWeight(family)} ${FONT_PX}px ${family}`;
+
+  const measure = document.createElement('canvas').getContext('2d');
+  if (!measure) return Array.from({ length: count }, () => new THREE.Vector3());
+  measure.font = font;
+  const pad = FONT_PX * 0.25;
+  const lineH = FONT_PX * LINE_HEIGHT;
+  const width = Math.ceil(Math.max(...lines.map(l => measure.measureText(l).width)) + pad * 2);
+  const height = Math.ceil(lines.length * lineH + pad * 2);
+
+  const cvs = document.createElement('canvas');
+  cvs.width = width; cvs.height = height;
+  const ctx = cvs.getContext('2d');
+  if (!ctx) return Array.from({ length: count }, () => new THREE.Vector3());
+
+  ctx.font = font;
+  ctx.fillStyle = 'white';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((l, i) => ctx.fillText(l, width / 2, pad + lineH * (i + 0.5)));
+
+  // Shrink long strings to stay in frame, and sample more finely so they keep enough detail
+  const scale = Math.min(0.5, MAX_WORLD_WIDTH / width, MAX_WORLD_HEIGHT / height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+  let ink = 0;
+  for (let i = 3; i < data.length; i += 4) if (data[i] > 128) ink++;
+  const step = Math.max(1, Math.min(4, Math.floor(Math.sqrt(ink / Math.max(count, 1)))));
+
+  const validPixels: { x: number; y: number }[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (data[(y * width + x) * 4 + 3] > 128) validPixels.push({ x, y });
+    }
+  }
+  if (validPixels.length === 0) return Array.from({ length: count }, () => new THREE.Vector3());
+
+  // Spread particles evenly over the glyphs instead of picking at random, so thin strokes are not skipped
+  const results: THREE.Vector3[] = [];
+  const stride = validPixels.length / count;
+  for (let i = 0; i < count; i++) {
+    const p = validPixels[Math.floor(i * stride) % validPixels.length];
+    results.push(new THREE.Vector3(
+      (p.x + (Math.random() - 0.5) * step - width / 2) * scale,
+      -(p.y - height / 2) * scale + 5, // Lift up slightly to center vertically
+      (Math.random() - 0.5) * DEPTH    // Add depth thickness
+    ));
+  }
+  return results;
+};
+
+// Draws the caption centered on the polaroid strip, shrinking it until it fits
+export const drawCaption = (ctx: CanvasRenderingContext2D, caption: string, family: string, cx: number, cy: number, maxWidth: number) => {
+  const text = caption.replace(/\s*\n\s*/g, ' ');
+  let size = 32;
+  ctx.font = `${getFontWeight(family)} ${size}px ${family}`;
+  while (size > 12 && ctx.measureText(text).width > maxWidth) {
+    size -= 2;
+    ctx.font = `${getFontWeight(family)} ${size}px ${family}`;
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(text, cx, cy);
+};
@@ -0,0 +1,142 @@
+import * as THREE from 'three';
+import { SceneConfig } from './sceneConfig';
+
+// --- THEMES ---
+// A theme colors the 3D scene (materials, lights, fog and background) and the HTML overlay
+// together. Overlay colors are CSS variables consumed by the `accent-*` Tailwind colors, so
+// switching themes only animates colors: nothing in the scene or the DOM is rebuilt.
+
+export type ThemeId = 'classic' | 'silver' | 'candy' | 'winter';
+
+export interface ThemePalette {
+  green: number;      // Wreaths
+  gold: number;       // Metallic baubles
+  red: number;        // Glossy baubles and hats
+  background: number; // Also the fog color
+  bear: number;
+  star: number;       // Star glow (topper emissive and small stars)
+  starCore: number;   // Topper body
+  lights: number[];   // Fairy light colors, each light keeps its slot across themes
+  keyLight: number;
+  fillLight: number;
+}
+
+export interface ThemeUi {
+  glow: number; // Title and glows
+  accent400: number;
+  accent500: number;
+  accent700: number;
+}
+
+export interface Theme {
+  id: ThemeId;
+  name: string;
+  palette: ThemePalette;
+  ui: ThemeUi;
+}
+
+export const THEMES: Theme[] = [
+  {
+    id: 'classic', name: 'Classic Gold',
+    // Scene colors other than the star and lights come from the scene config palette
+    palette: { green: 0x1a4a2a, gold: 0xffbf00, red: 0xc2002b, background: 0x010201, bear: 0x7a4a1b, star: 0xffd700, starCore: 0xfff0b3, lights: [0xffd700, 0xffaa00, 0xfff0b3, 0xffcc00], keyLight: 0xffd700, fillLight: 0xffaa00 },
+    ui: { glow: 0xffd700, accent400: 0xfacc15, accent500: 0xeab308, accent700: 0xa16207 },
+  },
+  {
+    id: 'silver', name: 'Silver Frost',
+    palette: { green: 0x2b3f4a, gold: 0xd8dde6, red: 0x6fa8dc, background: 0x02040a, bear: 0xb8c4d0, star: 0xe8f4ff, starCore: 0xffffff, lights: [0xe8f4ff, 0xbfe3ff, 0xffffff, 0x9fd3ff], keyLight: 0xcfe8ff, fillLight: 0x88aaff },
+    ui: { glow: 0xe6eef8, accent400: 0xcbd5e1, accent500: 0x94a3b8, accent700: 0x475569 },
+  },
+  {
+    id: 'candy', name: 'Candy Cane',
+    palette: { green: 0x1f5130, gold: 0xfff5f5, red: 0xe0115f, background: 0x080102, bear: 0xf2e6d8, star: 0xff4d6d, starCore: 0xffe4ea, lights: [0xff2d55, 0xffffff, 0xff8fa3, 0xffd1dc], keyLight: 0xffe0e6, fillLight: 0xff4d6d },
+    ui: { glow: 0xff4d6d, accent400: 0xfb7185, accent500: 0xf43f5e, accent700: 0xbe123c },
+  },
+  {
+    id: 'winter', name: 'Neutral Winter',
+    palette: { green: 0x2f3b35, gold: 0xcfc8bc, red: 0x8a9aa8, background: 0x050607, bear: 0x9c8f80, star: 0xfaf7f0, starCore: 0xffffff, lights: [0xfff8e7, 0xfdf3d8, 0xffffff, 0xf0e6cc], keyLight: 0xfff4e0, fillLight: 0xd9d4cc },
+    ui: { glow: 0xf5f0e6, accent400: 0xe7e5e4, accent500: 0xa8a29e, accent700: 0x57534e },
+  },
+];
+
+export const DEFAULT_THEME_ID: ThemeId = 'classic';
+const THEME_KEY = 'noel-tree:theme';
+const TRANSITION_S = 1.5;
+
+export const loadThemeId = (): ThemeId => {
+  try {
+    const id = localStorage.getItem(THEME_KEY);
+    if (THEMES.some(t => t.id === id)) return id as ThemeId;
+  } catch (e) { console.warn("Saved theme unreadable:", e); }
+  return DEFAULT_THEME_ID;
+};
+
+export const saveThemeId = (id: ThemeId) => {
+  try { localStorage.setItem(THEME_KEY, id); }
+  catch (e) { console.warn("Theme not saved:", e); }
+};
+
+// The classic theme follows the event's scene config palette
+export const resolveTheme = (id: ThemeId, configPalette: SceneConfig['palette']): Theme => {
+  const theme = THEMES.find(t => t.id === id) || THEMES[0];
+  return theme.id === 'classic' ? { ...theme, palette: { ...theme.palette, ...configPalette } } : theme;
+};
+
+// Scales a hex color per sRGB channel (e.g. the dark glow under the glossy baubles)
+export const shadeHex = (hex: number, k: number) =>
+  (Math.round(((hex >> 16) & 255) * k) << 16) | (Math.round(((hex >> 8) & 255) * k) << 8) | Math.round((hex & 255) * k);
+
+// --- LIVE TRANSITIONS ---
+// Each binding is a color owned by the scene (material, light, fog...) and how to read its value from a theme
+export type ColorBinding = [THREE.Color, (theme: Theme) => number];
+
+export interface ThemeTransition {
+  start: (theme: Theme) => void;
+  update: (dt: number) => boolean; // Steps the blend, false once settled
+}
+
+export const createThemeTransition = (bindings: ColorBinding[], duration = TRANSITION_S): ThemeTransition => {
+  let from: THREE.Color[] = [];
+  let to: THREE.Color[] = [];
+  let t = 1;
+  return {
+    start: theme => {
+      from = bindings.map(([c]) => c.clone());
+      to = bindings.map(([, get]) => new THREE.Color(get(theme)));
+      t = 0;
+    },
+    update: dt => {
+      if (t >= 1) return false;
+      t = Math.min(1, t + dt / duration);
+      const k = t * t * (3 - 2 * t);
+      bindings.forEach(([c], i) => c.lerpColors(from[i], to[i], k));
+      return true;
+    },
+  };
+};
+
+// --- HTML OVERLAY ---
+const UI_VARIABLES: Record<keyof ThemeUi, string> = {
+  glow: '--accent-glow', accent400: '--accent-400', accent500: '--accent-500', accent700: '--accent-700',
+};
+
+export type ThemeUiColors = Record<keyof ThemeUi, THREE.Color>;
+
+export const createThemeUiColors = (ui: ThemeUi): ThemeUiColors => ({
+  glow: new THREE.Color(ui.glow), accent400: new THREE.Color(ui.accent400),
+  accent500: new THREE.Color(ui.accent500), accent700: new THREE.Color(ui.accent700),
+});
+
+export const themeUiBindings = (colors: ThemeUiColors): ColorBinding[] =>
+  (Object.keys(colors) as (keyof ThemeUi)[]).map(k => [colors[k], t => t.ui[k]]);
+
+const _rgb = { r: 0, g: 0, b: 0 };
+
+// Writes "r g b" triplets so Tailwind can still apply its own opacity modifiers. Set on the tree's
+// own container, so two trees on a page (or the host page around one) keep their own colors.
+export const applyThemeUiColors = (colors: ThemeUiColors, root: HTMLElement) => {
+  (Object.keys(colors) as (keyof ThemeUi)[]).forEach(k => {
+    colors[k].getRGB(_rgb, THREE.SRGBColorSpace);
+    root.style.setProperty(UI_VARIABLES[k], `${Math.round(_rgb.r * 255)} ${Math.round(_rgb.g * 255)} ${Math.round(_rgb.b * 255)}`);
+  });
+};
@@ -1,5 +1,6 @@
 
 import * as THREE from 'three';
+import { InstancedBatch } from './instancing';
 
 export enum AppMode {
   LOADING = 'LOADING',
@@ -8,18 +9,29 @@ export enum AppMode {
   TEXT = 'TEXT'
 }
 
+// Formation ids registered in formations.ts; SCATTER, TREE and TEXT reuse the AppMode values
+export type FormationId = string;
+
 // Define GestureType to represent supported hand gestures for tracking
 export type GestureType = 'NONE' | 'PINCH' | 'FIST' | 'L_SHAPE' | 'OPEN_PALM' | 'THUMBS_UP';
 
 export type ParticleType = 'ORNAMENT' | 'GIFT' | 'CANDY_CANE' | 'STAR_ORNAMENT' | 'BRANCH' | 'BELL' | 'SNOWFLAKE' | 'LIGHT' | 'PHOTO';
 
+export interface ParticleInstance {
+  batch: InstancedBatch;
+  index: number;
+}
+
 export interface Particle {
-  mesh: THREE.Object3D;
+  mesh: THREE.Object3D; // Scene mesh, or a detached transform when drawn through `instance`
+  instance?: ParticleInstance;
   type: ParticleType;
   // Target positions
   treePos: THREE.Vector3;
   scatterPos: THREE.Vector3;
   textPos: THREE.Vector3; // Position for forming text
+  targets?: Record<FormationId, THREE.Vector3>; // Laid out points of the registry formations
+  tints?: Record<FormationId, THREE.Color>;     // Per-formation colors, for formations that provide them
   // Physics/Animation props
   velocity: THREE.Vector3;
   rotationSpeed: THREE.Vector3;
@@ -27,4 +39,7 @@ export interface Particle {
   isPhoto?: boolean;
   originalScale?: number;
   id?: string; // Unique ID for selecting photos
+  caption?: string;
+  createdAt?: number; // Capture time (epoch ms), used for persistence and ordering
+  archived?: boolean; // Texture downscaled to stay within the photo budget, full image in IndexedDB
 }
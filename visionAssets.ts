@@ -0,0 +1,39 @@
+// --- MEDIAPIPE ASSET RESOLUTION ---
+// Self-hosted copies (see scripts/fetch-mediapipe.mjs) are preferred; the CDN is only a fallback.
+
+export interface VisionAssets {
+  wasmUrl: string;
+  modelUrl: string;
+  source: 'LOCAL' | 'REMOTE';
+}
+
+export const LOCAL_ASSETS: VisionAssets = {
+  wasmUrl: './mediapipe/wasm',
+  modelUrl: './mediapipe/hand_landmarker.task',
+  source: 'LOCAL',
+};
+
+export const REMOTE_ASSETS: VisionAssets = {
+  wasmUrl: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm',
+  modelUrl: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+  source: 'REMOTE',
+};
+
+// Dev servers answer unknown paths with index.html, so a 200 alone does not prove the file exists
+const isServed = async (url: string) => {
+  try {
+    const res = await fetch(url, { method: 'HEAD' });
+    return res.ok && !(res.headers.get('content-type') || '').includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+// Ordered candidates: local first when both local files are present
+export const getVisionAssetCandidates = async (): Promise<VisionAssets[]> => {
+  const [wasm, model] = await Promise.all([
+    isServed(`${LOCAL_ASSETS.wasmUrl}/vision_wasm_internal.js`),
+    isServed(LOCAL_ASSETS.modelUrl),
+  ]);
+  return wasm && model ? [LOCAL_ASSETS, REMOTE_ASSETS] : [REMOTE_ASSETS];
+};
@@ -7,7 +7,9 @@ const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
 // https://vitejs.dev/config/
-export default defineConfig({
+// `vite build --mode element` builds the <noel-tree> custom element (noel-tree.ts) as a standalone
+// script next to the app instead of the app pages.
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
   base: './', 
   server: {
@@ -23,9 +25,30 @@ export default defineConfig({
   optimizeDeps: {
     include: ['react', 'react-dom', 'three', '@mediapipe/tasks-vision']
   },
-  build: {
+  // Library builds leave process.env alone, but React reads NODE_ENV from it
+  define: mode === 'element' ? { 'process.env.NODE_ENV': JSON.stringify('production') } : {},
+  build: mode === 'element' ? {
+    outDir: 'dist/element',
+    copyPublicDir: false,
+    sourcemap: false,
+    lib: {
+      entry: path.resolve(__dirname, 'noel-tree.ts'),
+      formats: ['es'],
+      fileName: () => 'noel-tree.js'
+    },
+    rollupOptions: {
+      output: { assetFileNames: 'noel-tree.[ext]' }
+    }
+  } : {
     outDir: 'dist',
     assetsDir: 'assets',
-    sourcemap: false
+    sourcemap: false,
+    rollupOptions: {
+      // The phone remote is a second page next to the display
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        controller: path.resolve(__dirname, 'controller.html')
+      }
+    }
   }
-})
\ No newline at end of file
+}))
\ No newline at end of file